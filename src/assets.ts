@@ -0,0 +1,299 @@
+import * as path from "path";
+import * as fs from "fs";
+import JSON5 from "json5";
+import * as YAML from "yaml";
+import { globToRegExp, writeFileRecursive } from "./utils.js";
+
+/**
+ * Tooling files that are never copied to the packs.
+ */
+export const DEFAULT_ASSET_IGNORE = [
+  "**/*.psd",
+  "**/*.blend",
+  "**/*.blend1",
+  "**/*.bbmodel",
+];
+
+/**
+ * Extensions of assets that are converted to `.json`.
+ */
+const JSON_SOURCE_EXTENSIONS = [".jsonc", ".json5", ".yaml", ".yml"];
+
+function isTransformedAsset(filePath: string) {
+  const ext = path.extname(filePath).toLowerCase();
+  return ext === ".json" || JSON_SOURCE_EXTENSIONS.includes(ext);
+}
+
+/**
+ * Check if an asset is ignored. `relPath` is relative to the assets directory
+ * and uses '/' as the separator, eg. `RP/models/ghost.bbmodel`.
+ */
+export function isIgnoredAsset(relPath: string, patterns: string[] = []) {
+  return [...DEFAULT_ASSET_IGNORE, ...patterns].some((pattern) =>
+    globToRegExp(pattern).test(relPath),
+  );
+}
+
+/**
+ * Get the path an asset is written to, eg. `entities/ghost.json` for
+ * `entities/ghost.yaml`.
+ */
+export function getAssetOutFile(file: string) {
+  const ext = path.extname(file);
+
+  return JSON_SOURCE_EXTENSIONS.includes(ext.toLowerCase())
+    ? `${file.slice(0, -ext.length)}.json`
+    : file;
+}
+
+/**
+ * Replace the comments in JSON with spaces so the positions in errors still
+ * match the file.
+ */
+function stripJsonComments(text: string) {
+  let result = "";
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      result += char;
+      if (char === "\\") {
+        result += text[++i] ?? "";
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") {
+        result += text[i] === "\r" ? "\r" : " ";
+        i++;
+      }
+      i--;
+    } else if (char === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      const comment = text.slice(i, end === -1 ? text.length : end + 2);
+      result += comment.replace(/[^\r\n]/g, " ");
+      i += comment.length - 1;
+    } else {
+      if (char === '"') inString = true;
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+function getLineAndColumn(text: string, position: number) {
+  const lines = text.slice(0, position).split("\n");
+  return `${lines.length}:${lines[lines.length - 1].length + 1}`;
+}
+
+const JSON_ESCAPE_REGEX = /\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4})/y;
+const JSON_NUMBER_REGEX = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const JSON_LITERALS = ["true", "false", "null"];
+
+/**
+ * Find the position of the first syntax error in JSON. Not all errors of
+ * `JSON.parse` include it, eg. `Unexpected token '}', "..." is not valid JSON`.
+ */
+function findJsonErrorPosition(text: string) {
+  let i = 0;
+
+  function skipWhitespace() {
+    while (i < text.length && " \t\n\r".includes(text[i])) i++;
+  }
+
+  function matchToken(regExp: RegExp) {
+    regExp.lastIndex = i;
+    const match = regExp.exec(text);
+    if (match) i += match[0].length;
+    return !!match;
+  }
+
+  function parseString() {
+    if (text[i] !== '"') return false;
+    i++;
+
+    while (i < text.length && text[i] !== '"') {
+      // control characters must be escaped
+      if (text.charCodeAt(i) < 0x20) return false;
+      if (text[i] === "\\") {
+        if (!matchToken(JSON_ESCAPE_REGEX)) return false;
+      } else {
+        i++;
+      }
+    }
+
+    if (i === text.length) return false;
+    i++;
+    return true;
+  }
+
+  function parseContainer(end: string, isObject: boolean) {
+    i++;
+    skipWhitespace();
+
+    for (let first = true; ; first = false) {
+      if (first && text[i] === end) break;
+      if (isObject) {
+        skipWhitespace();
+        if (!parseString()) return false;
+        skipWhitespace();
+        if (text[i] !== ":") return false;
+        i++;
+      }
+      if (!parseValue()) return false;
+
+      skipWhitespace();
+      if (text[i] === end) break;
+      if (text[i] !== ",") return false;
+      i++;
+    }
+
+    i++;
+    return true;
+  }
+
+  function parseLiteral() {
+    const literal = JSON_LITERALS.find((literal) => literal[0] === text[i]);
+    if (!literal) return false;
+
+    // the error is at the first character that does not match, like in
+    // 'JSON.parse'
+    for (const char of literal) {
+      if (text[i] !== char) return false;
+      i++;
+    }
+    return true;
+  }
+
+  function parseValue(): boolean {
+    skipWhitespace();
+    if (text[i] === "{") return parseContainer("}", true);
+    if (text[i] === "[") return parseContainer("]", false);
+    return parseString() || matchToken(JSON_NUMBER_REGEX) || parseLiteral();
+  }
+
+  if (parseValue()) skipWhitespace();
+  return i;
+}
+
+/**
+ * Parse JSON with the comments replaced by `stripJsonComments`. Errors include
+ * the line and column in the file.
+ */
+function parseStrippedJson(stripped: string, filePath: string): unknown {
+  try {
+    return JSON.parse(stripped) as unknown;
+  } catch (error) {
+    const { message } = error as Error;
+    const match = /^(.*?)(?: in JSON)? at position (\d+)/.exec(message);
+    const position = match ? Number(match[2]) : findJsonErrorPosition(stripped);
+
+    throw new Error(
+      `'${filePath}':${getLineAndColumn(stripped, position)}: ${
+        // the other errors include the text, which can be the whole file
+        match
+          ? match[1]
+          : message.replace(/, (?:\.\.\.)?".*" is not valid JSON$/s, "")
+      }`,
+    );
+  }
+}
+
+/**
+ * Parse JSON that can have comments, like the JSON files of Minecraft.
+ */
+export function parseJsonc(text: string, filePath: string) {
+  return parseStrippedJson(
+    stripJsonComments(text.replace(/^\uFEFF/, "")),
+    filePath,
+  );
+}
+
+/**
+ * Convert JSON to the text written to the packs, which is minified when
+ * optimizing.
+ */
+export function stringifyJson(json: unknown, optimize: boolean) {
+  return JSON.stringify(json, undefined, optimize ? undefined : 4);
+}
+
+/**
+ * Convert an asset to the content written to the packs. JSON sources are
+ * converted to JSON without comments, which is minified when optimizing.
+ * Other assets are unchanged.
+ */
+export function transformAsset(
+  assetPath: string,
+  content: Buffer,
+  optimize: boolean,
+): string | Buffer {
+  if (!isTransformedAsset(assetPath)) return content;
+
+  const text = content.toString("utf8").replace(/^\uFEFF/, "");
+
+  let json: unknown;
+  switch (path.extname(assetPath).toLowerCase()) {
+    case ".json":
+    case ".jsonc": {
+      const stripped = stripJsonComments(text);
+      json = parseStrippedJson(stripped, assetPath);
+      // the original formatting is kept when not optimizing
+      if (!optimize) return stripped.replace(/[ \t]+$/gm, "");
+      break;
+    }
+    case ".json5":
+      try {
+        json = JSON5.parse(text);
+      } catch (error) {
+        const { message, lineNumber, columnNumber } = error as SyntaxError & {
+          lineNumber: number;
+          columnNumber: number;
+        };
+        throw new Error(
+          `'${assetPath}':${lineNumber}:${columnNumber}: ${message
+            .replace(/^JSON5: /, "")
+            .replace(/ at \d+:\d+$/, "")}`,
+        );
+      }
+      break;
+    case ".yaml":
+    case ".yml":
+      try {
+        json = YAML.parse(text);
+      } catch (error) {
+        if (!(error instanceof YAML.YAMLParseError)) throw error;
+        const position = error.linePos?.[0];
+        throw new Error(
+          `'${assetPath}'${
+            position ? `:${position.line}:${position.col}` : ""
+          }: ${error.message.split(/ at line \d+/)[0]}`,
+        );
+      }
+      break;
+  }
+
+  return stringifyJson(json, optimize);
+}
+
+/**
+ * Copy an asset to the packs. Assets that are not transformed are copied
+ * without reading them.
+ */
+export async function copyAsset(
+  assetPath: string,
+  outPath: string,
+  optimize: boolean,
+) {
+  if (!isTransformedAsset(assetPath)) {
+    await fs.promises.mkdir(path.dirname(outPath), { recursive: true });
+    return fs.promises.copyFile(assetPath, outPath);
+  }
+
+  return writeFileRecursive(
+    outPath,
+    transformAsset(assetPath, await fs.promises.readFile(assetPath), optimize),
+  );
+}
@@ -0,0 +1,135 @@
+import * as path from "path";
+import * as fs from "fs";
+import { writeFileRecursive } from "./utils.js";
+
+export interface WorldPack {
+  pack: "BP" | "RP";
+  uuid: string;
+  version: number[];
+}
+
+interface WorldPackEntry {
+  pack_id: string;
+  version: number[];
+}
+
+const WORLD_PACK_FILE_NAMES = {
+  BP: "world_behavior_packs.json",
+  RP: "world_resource_packs.json",
+};
+
+export function getBdsWorldPath(bdsPath: string, world: string) {
+  return path.join(bdsPath, "worlds", world);
+}
+
+/**
+ * Read the name of the world the server loads from `server.properties`.
+ */
+export function readBdsLevelName(bdsPath: string) {
+  let properties: string;
+  try {
+    properties = fs.readFileSync(
+      path.join(bdsPath, "server.properties"),
+      "utf8",
+    );
+  } catch {
+    return;
+  }
+
+  return /^level-name=(.*)$/m.exec(properties)?.[1].trim() || undefined;
+}
+
+async function readWorldPackEntries(filePath: string) {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  try {
+    return JSON.parse(content) as WorldPackEntry[];
+  } catch (error) {
+    throw new Error(`'${filePath}': ${(error as Error).message}`);
+  }
+}
+
+async function updateWorldPackEntries(
+  bdsPath: string,
+  world: string,
+  pack: WorldPack["pack"],
+  updater: (entries: WorldPackEntry[]) => WorldPackEntry[],
+) {
+  const filePath = path.join(
+    getBdsWorldPath(bdsPath, world),
+    WORLD_PACK_FILE_NAMES[pack],
+  );
+  const entries = await readWorldPackEntries(filePath);
+
+  await writeFileRecursive(
+    filePath,
+    JSON.stringify(updater(entries), undefined, 2),
+  );
+}
+
+/**
+ * Add the packs to the pack lists of a world. Packs that are already in the
+ * lists are updated to the new version.
+ */
+export async function registerWorldPacks(
+  bdsPath: string,
+  world: string,
+  packs: WorldPack[],
+) {
+  for (const pack of packs) {
+    const newEntry = { pack_id: pack.uuid, version: pack.version };
+
+    // existing entries are updated in place to keep the order of the packs
+    await updateWorldPackEntries(bdsPath, world, pack.pack, (entries) =>
+      entries.some((entry) => entry.pack_id === pack.uuid)
+        ? entries.map((entry) =>
+            entry.pack_id === pack.uuid ? newEntry : entry,
+          )
+        : [...entries, newEntry],
+    );
+  }
+}
+
+/**
+ * Remove the packs from the pack lists of a world.
+ */
+export async function unregisterWorldPacks(
+  bdsPath: string,
+  world: string,
+  packs: Omit<WorldPack, "version">[],
+) {
+  for (const pack of packs) {
+    const filePath = path.join(
+      getBdsWorldPath(bdsPath, world),
+      WORLD_PACK_FILE_NAMES[pack.pack],
+    );
+    if (!fs.existsSync(filePath)) continue;
+
+    await updateWorldPackEntries(bdsPath, world, pack.pack, (entries) =>
+      entries.filter((entry) => entry.pack_id !== pack.uuid),
+    );
+  }
+}
+
+/**
+ * Read the UUID of a pack from the first of its manifests that exists, eg.
+ * the built manifest and then the one in the assets directory.
+ */
+export async function readPackUuid(manifestPaths: string[]) {
+  const manifestPath = manifestPaths.find((manifestPath) =>
+    fs.existsSync(manifestPath),
+  );
+  if (!manifestPath) return;
+
+  const manifest = JSON.parse(
+    await fs.promises.readFile(manifestPath, "utf8"),
+  ) as { header: { uuid: string } };
+
+  return manifest.header.uuid;
+}
@@ -1,35 +1,70 @@
 #!/usr/bin/env node
-import { Command } from "commander";
-import ora from "ora";
-import { build, getOutPath } from "./build.js";
+import { Command, InvalidArgumentError, Option } from "commander";
+import ora, { Ora } from "ora";
+import {
+  build,
+  BuildOptions,
+  createBuildContext,
+  getAssetOutPath,
+  getOutPath,
+  isMergedAsset,
+} from "./build.js";
 import * as path from "path";
 import * as fs from "fs";
 import inquirer from "inquirer";
 import * as uuid from "uuid";
 import * as childProcess from "child_process";
-import {
-  resolveFilePathEnvironmentVariables,
-  splitAndConvertElementsToNumber,
-  writeFileRecursive,
-} from "./utils.js";
+import { splitAndConvertElementsToNumber } from "./utils.js";
 import chalk from "chalk";
 import chokidar from "chokidar";
-import { VERSION } from "./common.js";
+import { DEFAULT_COM_MOJANG_PATH, VERSION } from "./common.js";
+import {
+  BUILD_MANIFEST_PATH,
+  TEST_BUNDLES_PATH,
+  CONFIG_FILE_NAMES,
+  createConfigFileContent,
+  getBuildOptions,
+  getHotReloadOptions,
+  isWorkspaceConfig,
+  loadConfig,
+  ResolvedProfile,
+  resolveProfile,
+} from "./config.js";
+import { HopperProfile } from "../types/config_types.js";
+import { pack } from "./pack.js";
+import {
+  forgetBuildOutputs,
+  recordBuildOutput,
+  removeBuildOutput,
+} from "./build_manifest.js";
+import { getManifestModuleVersion, updateProjectVersion } from "./version.js";
+import { resolveWorkspaceMembers, WorkspaceMember } from "./workspace.js";
+import { readPackUuid, unregisterWorldPacks, WorldPack } from "./bds.js";
+import { generateDefinitionTypes } from "./gen_types.js";
+import {
+  createScriptGlobalsContent,
+  fetchModuleVersions,
+  MINECRAFT_SCRIPT_MODULES,
+  readInstalledModuleVersion,
+  ScriptModuleChange,
+  ScriptModuleName,
+  updateScriptModules,
+} from "./script_modules.js";
+import {
+  DEFAULT_HOT_RELOAD_PORT,
+  HotReloadServer,
+  startHotReloadServer,
+} from "./hot_reload.js";
+import { copyAsset } from "./assets.js";
+import {
+  DEFAULT_TEST_TIMEOUT,
+  findTestFiles,
+  formatTestError,
+  runTests,
+} from "./test_runner.js";
 
 const program = new Command();
 
-const MINECRAFT_SCRIPT_MODULES = {
-  "@minecraft/server-gametest": { alias: "serverGametest" },
-  "@minecraft/server-ui": { alias: "serverUi" },
-  "@minecraft/server": { alias: "server" },
-  "@minecraft/server-editor": { alias: "serverEditor" },
-  "@minecraft/server-admin": { alias: "serverAdmin" },
-  "@minecraft/server-net": { alias: "serverNet" },
-};
-
-const DEFAULT_COM_MOJANG_PATH =
-  "%localappdata%\\Packages\\Microsoft.MinecraftUWP_8wekyb3d8bbwe\\LocalState\\games\\com.mojang";
-
 program
   .name("hopper")
   .description(
@@ -37,41 +72,271 @@ program
   )
   .version(VERSION);
 
+/**
+ * Get the options that were explicitly passed through the CLI so they override
+ * the project config.
+ */
+function getCliProfile(command: Command): HopperProfile {
+  const options = command.opts();
+
+  return Object.fromEntries(
+    Object.keys(options)
+      .filter(
+        (key) =>
+          key !== "profile" &&
+          key !== "filter" &&
+          command.getOptionValueSource(key) === "cli",
+      )
+      .map((key) => [key, options[key]]),
+  );
+}
+
+/**
+ * Get the projects to build. Without a project name a workspace config in the
+ * current directory resolves to its members.
+ */
+async function resolveProjects(
+  name: string | undefined,
+  options: { profile?: string; filter?: string[] },
+  command: Command,
+  copyAssets: boolean,
+): Promise<WorkspaceMember[]> {
+  const config = name ? undefined : await loadConfig();
+
+  if (config && isWorkspaceConfig(config)) {
+    return resolveWorkspaceMembers(
+      config,
+      ".",
+      getCliProfile(command),
+      options.profile,
+      copyAssets,
+      options.filter,
+    );
+  }
+
+  if (options.filter) {
+    throw new Error("'--filter' can only be used in a workspace");
+  }
+
+  const profile = await resolveProfile(
+    name,
+    getCliProfile(command),
+    options.profile,
+  );
+
+  return [{ profile, buildOptions: getBuildOptions(profile, copyAssets) }];
+}
+
 program
   .command("clean")
-  .description("Remove a project from the com.mojang directory")
-  .argument("<name>", "The name of the project")
+  .description("Remove a built project from its out directory")
   .argument(
-    "[path]",
-    "The path to the com.mojang directory",
-    DEFAULT_COM_MOJANG_PATH,
-  )
-  .action(async (name: string, comMojangPath: string) => {
-    const spinner = ora("Cleaning").start();
-
-    const resolvedComMojangPath =
-      resolveFilePathEnvironmentVariables(comMojangPath);
-
-    await Promise.all([
-      fs.promises.rm(
-        path.join(resolvedComMojangPath, "development_behavior_packs", name),
-        { force: true, recursive: true },
-      ),
-      fs.promises.rm(
-        path.join(resolvedComMojangPath, "development_resource_packs", name),
-        { force: true, recursive: true },
-      ),
-    ]);
+    "[name]",
+    "The name of the project. Defaults to the name in the project config",
+  )
+  .argument("[path]", "The path to the com.mojang directory")
+  .option(
+    "-m, --com-mojang [path]",
+    `Specify the com.mojang path. If [path] is not specified it will be '${DEFAULT_COM_MOJANG_PATH}'`,
+  )
+  .option("-o, --out <path>", "Specify the out directory path")
+  .option(
+    "--bds <path>",
+    "Specify the directory of a Bedrock Dedicated Server to remove the packs from",
+  )
+  .option(
+    "--world <name>",
+    "The world of the Bedrock Dedicated Server to remove the packs from",
+  )
+  .option("-p, --profile <name>", "The project config profile to use")
+  .action(
+    async (
+      name: string | undefined,
+      comMojangPath: string | undefined,
+      options: { profile?: string },
+      command: Command,
+    ) => {
+      const spinner = ora("Cleaning").start();
 
-    spinner.succeed();
-  });
+      try {
+        const cliProfile = getCliProfile(command);
+        if (comMojangPath) cliProfile.comMojang = comMojangPath;
+
+        const profile = await resolveProfile(name, cliProfile, options.profile);
+        if (!profile.comMojang && !profile.out && !profile.bds) {
+          profile.comMojang = true;
+        }
+
+        const { out } = getBuildOptions(profile, false);
+        const { outDirBp, outDirRp } = getOutPath(profile.name, out);
+
+        // read before the built manifests are removed
+        if ("bdsPath" in out) {
+          const worldPacks: Omit<WorldPack, "version">[] = [];
+
+          for (const [pack, outDir] of [
+            ["BP", outDirBp],
+            ["RP", outDirRp],
+          ] as const) {
+            const uuid = await readPackUuid([
+              path.join(outDir, "manifest.json"),
+              path.join(profile.assets, pack, "manifest.json"),
+            ]);
+            if (uuid) worldPacks.push({ pack, uuid });
+          }
+
+          await unregisterWorldPacks(out.bdsPath, out.world, worldPacks);
+        }
+
+        await Promise.all([
+          fs.promises.rm(outDirBp, { force: true, recursive: true }),
+          fs.promises.rm(outDirRp, { force: true, recursive: true }),
+        ]);
+        await forgetBuildOutputs(path.join(profile.root, BUILD_MANIFEST_PATH), [
+          outDirBp,
+          outDirRp,
+        ]);
+
+        spinner.succeed();
+      } catch (error) {
+        spinner.fail((error as Error).message);
+      }
+    },
+  );
+
+type WatchLogType =
+  | "scriptUpdate"
+  | "assetUpdate"
+  | "assetRemove"
+  | "hotReload"
+  | "warning"
+  | "error"
+  | "info";
+
+/**
+ * Watch the source and assets of a project and rebuild the changed parts.
+ */
+function watchProject(
+  profile: ResolvedProfile,
+  buildOptions: BuildOptions,
+  log: (type: WatchLogType, message: string) => void,
+  onScriptRebuild: () => void,
+) {
+  const buildManifestPath =
+    buildOptions.buildManifestPath ??
+    path.join(profile.root, BUILD_MANIFEST_PATH);
+
+  // kept for the whole watch so unchanged parts are not rebuilt
+  const buildContext = createBuildContext(buildOptions);
+
+  let isRebuilding = false;
+  let shouldRebuild = false;
+
+  function scriptRebuild() {
+    isRebuilding = true;
+
+    log("info", "Rebuilding scripts");
+
+    buildContext
+      .rebuild()
+      .then(({ warnings, timings }) => {
+        for (const warning of warnings) log("warning", warning);
+        log(
+          "info",
+          `Completed script rebuild in ${
+            timings.bundle +
+            timings.compileTime +
+            timings.transform +
+            timings.write
+          }ms (bundle ${timings.bundle}ms, compile time ${
+            timings.compileTime
+          }ms, transform ${timings.transform}ms, write ${timings.write}ms)`,
+        );
+        onScriptRebuild();
+      })
+      .catch((err) => {
+        log("error", (err as Error).message);
+      })
+      .finally(() => {
+        if (shouldRebuild) {
+          shouldRebuild = false;
+          scriptRebuild();
+        } else {
+          isRebuilding = false;
+        }
+      });
+  }
+
+  function onScriptUpdate(filePath: string) {
+    log("scriptUpdate", filePath);
+
+    if (isRebuilding) {
+      shouldRebuild = true;
+      return;
+    }
+
+    scriptRebuild();
+  }
+
+  // shared code from the workspace is part of the bundle too
+  chokidar
+    .watch([profile.src, ...Object.values(buildOptions.alias ?? {})], {
+      ignoreInitial: true,
+    })
+    .on("add", onScriptUpdate)
+    .on("change", onScriptUpdate)
+    .on("unlink", onScriptUpdate);
+
+  const { outDirBp, outDirRp } = getOutPath(profile.name, buildOptions.out);
+  const outDirs = [outDirBp, outDirRp];
+
+  function onAssetUpdate(filePath: string) {
+    // merged assets are written by the script build
+    if (isMergedAsset(buildOptions, filePath)) {
+      return onScriptUpdate(filePath);
+    }
+
+    const outPath = getAssetOutPath(buildOptions, filePath);
+    if (!outPath) return;
+
+    log("assetUpdate", filePath);
+
+    copyAsset(filePath, outPath, buildOptions.optimize)
+      .then(() => recordBuildOutput(buildManifestPath, outPath, "asset"))
+      .catch((err) => {
+        log("error", (err as Error).message);
+      });
+  }
+
+  chokidar
+    .watch(profile.assets, { ignoreInitial: true })
+    .on("add", onAssetUpdate)
+    .on("change", onAssetUpdate)
+    .on("unlink", (filePath) => {
+      if (isMergedAsset(buildOptions, filePath)) {
+        return onScriptUpdate(filePath);
+      }
+
+      const outPath = getAssetOutPath(buildOptions, filePath);
+      if (!outPath) return;
+
+      log("assetRemove", filePath);
+
+      removeBuildOutput(buildManifestPath, outPath, outDirs).catch((err) => {
+        log("error", (err as Error).message);
+      });
+    });
+}
 
 program
   .command("watch")
   .description(
     "Watch a project and automatically build it when a file is updated",
   )
-  .argument("<name>", "The name of the project")
+  .argument(
+    "[name]",
+    "The name of the project. Defaults to the name in the project config",
+  )
   .option(
     "-m, --com-mojang [path]",
     `Specify the com.mojang path. Use '--out' to specify a specific out directory. If [path] is not specified it will be '${DEFAULT_COM_MOJANG_PATH}'`,
@@ -80,135 +345,137 @@ program
     "-o, --out <path>",
     "Specify the out directory path. Use '--com-mojang' to output to the com.mojang directory",
   )
+  .option(
+    "--bds <path>",
+    "Output to the directory of a Bedrock Dedicated Server and add the packs to a world",
+  )
+  .option(
+    "--world <name>",
+    "The world of the Bedrock Dedicated Server. Defaults to the 'level-name' in its 'server.properties'",
+  )
   .option("--no-rp", "Do not include a RP")
   .option("-O, --optimize", "Should optimize the output script bundle")
+  .option(
+    "--mode <mode>",
+    "The build mode, eg. 'development' or 'production'. Defaults to 'production' when optimizing and 'development' otherwise",
+  )
+  .option(
+    "--strict",
+    "Fail the build if a definition does not match its schema",
+  )
+  .addOption(
+    new Option(
+      "--sourcemap [type]",
+      "Generate a source map for the output script bundle",
+    ).choices(["external", "inline"]),
+  )
   .option("--src <path>", "Path to the source directory", "src")
   .option("--entry <path>", "Path to the entry file", "src/index.ts")
   .option("--assets <path>", "Path to the assets directory", "assets")
+  .option("-p, --profile <name>", "The project config profile to use")
+  .addOption(
+    new Option(
+      "--hot-reload [port]",
+      `Run '/reload' in Minecraft after each script rebuild. Minecraft connects with '/connect localhost:<port>'. [port] defaults to ${DEFAULT_HOT_RELOAD_PORT}`,
+    ).argParser((port) => ({ port: parsePort(port) })),
+  )
+  .option(
+    "-f, --filter <names...>",
+    "Only watch these members of the workspace",
+  )
   .action(
-    (
-      name: string,
-      options: {
-        comMojang?: boolean | string;
-        out?: string;
-        rp: boolean;
-        optimize?: boolean;
-        src: string;
-        entry: string;
-        assets: string;
-      },
+    async (
+      name: string | undefined,
+      options: { profile?: string; filter?: string[] },
+      command: Command,
     ) => {
-      if (!options.comMojang && !options.out) {
-        return void ora().fail("'--com-mojang' or '--out' must be specified");
-      }
+      let projects: WorkspaceMember[];
 
-      if (options.comMojang && options.out) {
-        return void ora().fail(
-          "Cannot specify both '--com-mojang' and '--out'. Use one",
-        );
+      try {
+        projects = await resolveProjects(name, options, command, false);
+      } catch (error) {
+        return void ora().fail((error as Error).message);
       }
 
-      const buildOptions = {
-        name,
-        copyAssets: false,
-        includeRp: options.rp,
-        indexPath: options.entry,
-        assetsPath: options.assets,
-        optimize: !!options.optimize,
-        out: options.out
-          ? { outPath: resolveFilePathEnvironmentVariables(options.out) }
-          : {
-              comMojangPath: resolveFilePathEnvironmentVariables(
-                typeof options.comMojang === "string"
-                  ? options.comMojang
-                  : DEFAULT_COM_MOJANG_PATH,
-              ),
-            },
-      };
-
       const ui = new inquirer.ui.BottomBar({
-        bottomBar: `\n${chalk.bold("[Hopper]")} Watching ${name}`,
+        bottomBar: `\n${chalk.bold("[Hopper]")} Watching ${projects
+          .map(({ profile }) => profile.name)
+          .join(", ")}`,
       });
 
-      function log(
-        type: "scriptUpdate" | "assetUpdate" | "error" | "info",
-        message: string,
-      ) {
+      function log(type: WatchLogType, message: string) {
         ui.log.write(
           `${
             type === "scriptUpdate"
               ? chalk.green("[Script Update]")
               : type === "assetUpdate"
                 ? chalk.green("[Asset Update]")
-                : type === "error"
-                  ? chalk.red("[Error]")
-                  : chalk.blue("[Info]")
+                : type === "assetRemove"
+                  ? chalk.yellow("[Asset Remove]")
+                  : type === "hotReload"
+                    ? chalk.magenta("[Hot Reload]")
+                    : type === "warning"
+                      ? chalk.yellow("[Warning]")
+                      : type === "error"
+                        ? chalk.red("[Error]")
+                        : chalk.blue("[Info]")
           } ${message}`,
         );
       }
 
-      let isRebuilding = false;
-      let shouldRebuild = false;
-
-      function scriptRebuild() {
-        isRebuilding = true;
-
-        log("info", "Rebuilding scripts");
-
-        build(buildOptions)
-          .then(() => {
-            log("info", "Completed script rebuild");
-          })
-          .catch((err) => {
-            log("error", (err as Error).message);
-          })
-          .finally(() => {
-            if (shouldRebuild) {
-              shouldRebuild = false;
-              scriptRebuild();
-            } else {
-              isRebuilding = false;
-            }
-          });
-      }
-
-      chokidar.watch(options.src).on("change", (filePath) => {
-        log("scriptUpdate", filePath);
-
-        if (isRebuilding) {
-          shouldRebuild = true;
-          return;
-        }
-
-        scriptRebuild();
-      });
-
-      chokidar.watch(options.assets).on("change", (filePath) => {
-        log("assetUpdate", filePath);
+      // one server is shared by the projects of a workspace
+      const hotReloadPort = projects
+        .map(({ profile }) => getHotReloadOptions(profile)?.port)
+        .find((port) => port !== undefined);
 
+      let hotReloadServer: HotReloadServer | undefined;
+      if (hotReloadPort !== undefined) {
         try {
-          const relPath = path.relative(options.assets, filePath);
-          const { outDirBp, outDirRp } = getOutPath(name, buildOptions.out);
-          const outPath = path.join(
-            relPath.startsWith("BP") ? outDirBp : outDirRp,
-            relPath.slice(3),
+          hotReloadServer = await startHotReloadServer(hotReloadPort, log);
+          log(
+            "hotReload",
+            `Run '/connect localhost:${hotReloadPort}' in game to reload after each script rebuild`,
           );
-          writeFileRecursive(outPath, fs.readFileSync(filePath)).catch(
-            (err) => {
-              log("error", (err as Error).message);
-            },
+        } catch (error) {
+          log(
+            "error",
+            `Could not start the hot reload server: ${
+              (error as Error).message
+            }`,
           );
-        } catch (err) {
-          log("error", (err as Error).message);
         }
-      });
+      }
+
+      for (const { profile, buildOptions } of projects) {
+        const hotReloadOptions = getHotReloadOptions(profile);
+
+        watchProject(
+          profile,
+          buildOptions,
+          (type, message) =>
+            log(
+              type,
+              projects.length > 1
+                ? `${chalk.bold(profile.name)} ${message}`
+                : message,
+            ),
+          () => {
+            if (hotReloadOptions) {
+              hotReloadServer?.runCommands(hotReloadOptions.commands);
+            }
+          },
+        );
+      }
     },
   );
 
 program
   .command("build")
   .description("Build a project")
-  .argument("<name>", "The name of the project")
+  .argument(
+    "[name]",
+    "The name of the project. Defaults to the name in the project config",
+  )
   .option(
     "-m, --com-mojang [path]",
     `Specify the com.mojang path. Use '--out' to specify a specific out directory. If [path] is not specified it will be '${DEFAULT_COM_MOJANG_PATH}'`,
@@ -217,56 +484,500 @@ program
     "-o, --out <path>",
     "Specify the out directory path. Use '--com-mojang' to output to the com.mojang directory",
   )
+  .option(
+    "--bds <path>",
+    "Output to the directory of a Bedrock Dedicated Server and add the packs to a world",
+  )
+  .option(
+    "--world <name>",
+    "The world of the Bedrock Dedicated Server. Defaults to the 'level-name' in its 'server.properties'",
+  )
   .option("--no-rp", "Do not include a RP")
   .option("-O, --optimize", "Should optimize the output script bundle")
+  .option(
+    "--mode <mode>",
+    "The build mode, eg. 'development' or 'production'. Defaults to 'production' when optimizing and 'development' otherwise",
+  )
+  .option(
+    "--strict",
+    "Fail the build if a definition does not match its schema",
+  )
+  .addOption(
+    new Option(
+      "--sourcemap [type]",
+      "Generate a source map for the output script bundle",
+    ).choices(["external", "inline"]),
+  )
   .option("--entry <path>", "Path to the entry file", "src/index.ts")
   .option("--assets <path>", "Path to the assets directory", "assets")
+  .option("-p, --profile <name>", "The project config profile to use")
+  .option(
+    "-f, --filter <names...>",
+    "Only build these members of the workspace",
+  )
   .action(
-    (
-      name: string,
-      options: {
-        comMojang?: boolean | string;
-        out?: string;
-        rp: boolean;
-        optimize?: boolean;
-        entry: string;
-        assets: string;
-      },
+    async (
+      name: string | undefined,
+      options: { profile?: string; filter?: string[] },
+      command: Command,
     ) => {
-      if (!options.comMojang && !options.out) {
-        return void ora().fail("'--com-mojang' or '--out' must be specified");
+      let projects: WorkspaceMember[];
+
+      try {
+        projects = await resolveProjects(name, options, command, true);
+      } catch (error) {
+        return void ora().fail((error as Error).message);
       }
 
-      if (options.comMojang && options.out) {
-        return void ora().fail(
-          "Cannot specify both '--com-mojang' and '--out'. Use one",
+      const isWorkspace = projects.length > 1;
+      const spinner = ora(
+        isWorkspace
+          ? `Building ${projects.length} projects`
+          : "Building project",
+      ).start();
+
+      const results = await Promise.allSettled(
+        projects.map(({ buildOptions }) => build(buildOptions)),
+      );
+
+      const failedCount = results.filter(
+        (result) => result.status === "rejected",
+      ).length;
+
+      if (!failedCount) spinner.succeed();
+      else if (isWorkspace) {
+        spinner.fail(`${failedCount} of ${projects.length} projects failed`);
+      } else {
+        spinner.fail(
+          ((results[0] as PromiseRejectedResult).reason as Error).message,
         );
       }
 
-      const spinner = ora("Building project").start();
-
-      build({
-        name,
-        copyAssets: true,
-        includeRp: options.rp,
-        indexPath: options.entry,
-        assetsPath: options.assets,
-        optimize: !!options.optimize,
-        out: options.out
-          ? { outPath: resolveFilePathEnvironmentVariables(options.out) }
-          : {
-              comMojangPath: resolveFilePathEnvironmentVariables(
-                typeof options.comMojang === "string"
-                  ? options.comMojang
-                  : DEFAULT_COM_MOJANG_PATH,
-              ),
-            },
-      })
-        .then(() => spinner.succeed())
-        .catch((error) => spinner.fail((error as Error).message));
+      for (const [i, result] of results.entries()) {
+        const prefix = isWorkspace ? `[${projects[i].profile.name}] ` : "";
+
+        if (result.status === "fulfilled") {
+          for (const warning of result.value.warnings) {
+            ora().warn(prefix + warning);
+          }
+        } else if (isWorkspace) {
+          ora().fail(prefix + (result.reason as Error).message);
+        }
+      }
     },
   );
 
+program
+  .command("pack")
+  .description("Build a project and export it as .mcpack and .mcaddon archives")
+  .argument(
+    "[name]",
+    "The name of the project. Defaults to the name in the project config",
+  )
+  .option(
+    "-o, --out <path>",
+    "Specify the directory to write the archives to",
+    "build",
+  )
+  .option("--no-rp", "Do not include a RP")
+  .option("-O, --optimize", "Should optimize the output script bundle")
+  .option(
+    "--mode <mode>",
+    "The build mode, eg. 'development' or 'production'. Defaults to 'production' when optimizing and 'development' otherwise",
+  )
+  .option(
+    "--strict",
+    "Fail the build if a definition does not match its schema",
+  )
+  .addOption(
+    new Option(
+      "--sourcemap [type]",
+      "Generate a source map for the output script bundle",
+    ).choices(["external", "inline"]),
+  )
+  .option("--entry <path>", "Path to the entry file", "src/index.ts")
+  .option("--assets <path>", "Path to the assets directory", "assets")
+  .option("-p, --profile <name>", "The project config profile to use")
+  .action(
+    async (
+      name: string | undefined,
+      options: { profile?: string; out: string },
+      command: Command,
+    ) => {
+      const spinner = ora("Packing project").start();
+
+      try {
+        const cliProfile = getCliProfile(command);
+        delete cliProfile.out;
+
+        const profile = await resolveProfile(name, cliProfile, options.profile);
+
+        const { archivePaths, warnings } = await pack(
+          getBuildOptions(
+            { ...profile, comMojang: false, bds: undefined, out: options.out },
+            true,
+          ),
+          options.out,
+        );
+
+        spinner.succeed(`Packed ${archivePaths.join(", ")}`);
+        for (const warning of warnings) ora().warn(warning);
+      } catch (error) {
+        spinner.fail((error as Error).message);
+      }
+    },
+  );
+
+program
+  .command("test")
+  .description(
+    "Run the tests of a project in Node against a mock of '@minecraft/server'",
+  )
+  .argument(
+    "[files...]",
+    "The test files. Defaults to the '.test.ts' and '.test.js' files in the source directory",
+  )
+  .option("--mode <mode>", "The build mode. Defaults to 'test'")
+  .option(
+    "--timeout <ms>",
+    "Milliseconds after which a test fails",
+    parseTimeout,
+    DEFAULT_TEST_TIMEOUT,
+  )
+  .option("--src <path>", "Path to the source directory", "src")
+  .option("--assets <path>", "Path to the assets directory", "assets")
+  .option("-p, --profile <name>", "The project config profile to use")
+  .action(
+    async (
+      files: string[],
+      options: { profile?: string; timeout: number },
+      command: Command,
+    ) => {
+      const cliProfile = getCliProfile(command);
+      // fail unless the summary is printed, eg. if Node exits because a test
+      // waits for something that never happens
+      process.exitCode = 1;
+
+      let profile: ResolvedProfile;
+      let buildOptions: BuildOptions;
+      try {
+        profile = await resolveProfile(undefined, cliProfile, options.profile);
+        // the bundles are only written to run them
+        buildOptions = getBuildOptions(
+          {
+            ...profile,
+            comMojang: undefined,
+            bds: undefined,
+            out: path.join(profile.root, TEST_BUNDLES_PATH),
+            mode: profile.mode ?? "test",
+          },
+          false,
+        );
+      } catch (error) {
+        return void ora().fail((error as Error).message);
+      }
+
+      const testFiles = files.length ? files : await findTestFiles(profile.src);
+      if (!testFiles.length) {
+        return void ora().fail(`No test files found in '${profile.src}'`);
+      }
+
+      let passedCount = 0;
+      let failedCount = 0;
+
+      await runTests(
+        buildOptions,
+        testFiles,
+        path.join(profile.root, TEST_BUNDLES_PATH),
+        (result) => {
+          const label = result.name
+            ? `${result.file} > ${result.name} ${chalk.gray(
+                `(${result.duration}ms)`,
+              )}`
+            : result.file;
+
+          if (!result.error) {
+            passedCount++;
+            return void ora().succeed(label);
+          }
+
+          failedCount++;
+          ora().fail(`${label}\n${chalk.red(formatTestError(result.error))}`);
+        },
+        options.timeout,
+      );
+
+      const summary = `${passedCount} passed, ${failedCount} failed`;
+      if (failedCount) {
+        ora().fail(summary);
+      } else {
+        ora().succeed(summary);
+        process.exitCode = 0;
+      }
+    },
+  );
+
+program
+  .command("version")
+  .description(
+    "Update the version of the packs and package.json, or the engine and script module versions in the manifests",
+  )
+  .argument(
+    "<version>",
+    "'major', 'minor', 'patch' or a version in 'x.x.x' format",
+  )
+  .option(
+    "--min-engine-version <version>",
+    "Set the min engine version of the packs in 'x.x.x' format",
+  )
+  .option(
+    "-m, --module <module@version...>",
+    "Set the version of script modules, eg. '@minecraft/server@1.8.0'",
+  )
+  .option("--assets <path>", "Path to the assets directory")
+  .action(
+    async (
+      version: string,
+      options: {
+        minEngineVersion?: string;
+        module?: string[];
+        assets?: string;
+      },
+    ) => {
+      const spinner = ora("Updating versions").start();
+
+      try {
+        const moduleVersions: { [moduleName: string]: string } = {};
+        for (const moduleVersion of options.module ?? []) {
+          const { moduleName, npmVersion } = parseModuleSpec(moduleVersion);
+          if (!npmVersion) {
+            throw new Error(
+              `'${moduleVersion}' must be in 'module@version' format`,
+            );
+          }
+
+          moduleVersions[moduleName] = npmVersion;
+        }
+
+        const config = await loadConfig();
+        if (config && isWorkspaceConfig(config)) {
+          throw new Error(
+            "Versions are updated per project. Run it in a member directory",
+          );
+        }
+
+        const result = await updateProjectVersion({
+          assetsPath: options.assets ?? config?.assets ?? "assets",
+          packageJsonPath: "package.json",
+          version,
+          minEngineVersion: options.minEngineVersion,
+          moduleVersions,
+        });
+
+        spinner.succeed(
+          `Updated ${result.filePaths.join(", ")} to ${result.version}`,
+        );
+      } catch (error) {
+        spinner.fail((error as Error).message);
+      }
+    },
+  );
+
+/**
+ * Parse the port of `--hot-reload`.
+ */
+function parsePort(value: string) {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new InvalidArgumentError("Must be a port from 1 to 65535.");
+  }
+  return port;
+}
+
+/**
+ * Parse the milliseconds of `--timeout`.
+ */
+function parseTimeout(value: string) {
+  const timeout = Number(value);
+  if (!Number.isInteger(timeout) || timeout < 1) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return timeout;
+}
+
+/**
+ * Parse a script module in 'module@version' format. The version is optional.
+ */
+function parseModuleSpec(spec: string): ScriptModuleChange {
+  // the '@' at the start is part of the scope
+  const separatorIndex = spec.lastIndexOf("@");
+  if (separatorIndex <= 0) return { moduleName: spec };
+
+  return {
+    moduleName: spec.slice(0, separatorIndex),
+    npmVersion: spec.slice(separatorIndex + 1) || undefined,
+  };
+}
+
+/**
+ * Prompt for the version of each script module. The versions are listed from
+ * npm, or entered by hand if npm is unavailable.
+ */
+async function promptModuleVersions(moduleNames: string[]) {
+  if (!moduleNames.length) return {};
+
+  const spinner = ora("Fetching script module types from npm").start();
+
+  const moduleVersions = await Promise.all(
+    moduleNames.map((moduleName) => fetchModuleVersions(moduleName)),
+  );
+
+  if (moduleVersions.some((versions) => !versions)) {
+    spinner.warn(
+      "Some script modules could not be fetched. Enter their versions instead",
+    );
+  } else {
+    spinner.succeed();
+  }
+
+  return inquirer.prompt<{ [moduleName: string]: string }>(
+    moduleNames.map((moduleName, i) => {
+      const versions = moduleVersions[i];
+
+      return versions
+        ? {
+            type: "list",
+            name: moduleName,
+            message: `Which version of ${moduleName} to use?`,
+            // only show the latest 20
+            choices: versions.slice(0, 20),
+          }
+        : {
+            type: "input",
+            name: moduleName,
+            message: `Enter the version of ${moduleName} to use:`,
+            default: readInstalledModuleVersion(moduleName),
+            validate: (input: string) =>
+              !!input.trim() || "A version must be entered.",
+          };
+    }),
+  );
+}
+
+async function runScriptModuleCommand(
+  action: "add" | "upgrade" | "remove",
+  specs: string[],
+  options: { assets?: string },
+) {
+  let spinner: Ora | undefined;
+
+  try {
+    const config = await loadConfig();
+    if (config && isWorkspaceConfig(config)) {
+      throw new Error(
+        "Script modules are updated per project. Run it in a member directory",
+      );
+    }
+
+    const changes = specs.map(parseModuleSpec);
+
+    if (action !== "remove") {
+      const promptedVersions = await promptModuleVersions(
+        changes
+          .filter((change) => !change.npmVersion)
+          .map((change) => change.moduleName),
+      );
+      for (const change of changes) {
+        change.npmVersion ??= promptedVersions[change.moduleName];
+      }
+    }
+
+    spinner = ora("Updating script modules").start();
+
+    const filePaths = await updateScriptModules(
+      {
+        assetsPath: options.assets ?? config?.assets ?? "assets",
+        packageJsonPath: "package.json",
+        scriptGlobalsPath: "types/script_globals.d.ts",
+      },
+      action,
+      changes,
+    );
+
+    spinner.succeed(`Updated ${filePaths.join(", ")}`);
+    ora().info("Run 'npm install' to update the installed types");
+  } catch (error) {
+    (spinner ?? ora()).fail((error as Error).message);
+  }
+}
+
+program
+  .command("add-module")
+  .description(
+    "Add script modules to the BP manifest, package.json and types/script_globals.d.ts",
+  )
+  .argument(
+    "<modules...>",
+    "The script modules, eg. '@minecraft/server-ui' or '@minecraft/server-ui@1.1.0'. The version is prompted for if it is not specified",
+  )
+  .option("--assets <path>", "Path to the assets directory")
+  .action((modules: string[], options: { assets?: string }) =>
+    runScriptModuleCommand("add", modules, options),
+  );
+
+program
+  .command("upgrade-module")
+  .description(
+    "Change the version of script modules in the BP manifest and package.json",
+  )
+  .argument(
+    "<modules...>",
+    "The script modules, eg. '@minecraft/server' or '@minecraft/server@1.8.0'. The version is prompted for if it is not specified",
+  )
+  .option("--assets <path>", "Path to the assets directory")
+  .action((modules: string[], options: { assets?: string }) =>
+    runScriptModuleCommand("upgrade", modules, options),
+  );
+
+program
+  .command("remove-module")
+  .description(
+    "Remove script modules from the BP manifest, package.json and types/script_globals.d.ts",
+  )
+  .argument("<modules...>", "The script modules, eg. '@minecraft/server-ui'")
+  .option("--assets <path>", "Path to the assets directory")
+  .action((modules: string[], options: { assets?: string }) =>
+    runScriptModuleCommand("remove", modules, options),
+  );
+
+program
+  .command("gen-types")
+  .description(
+    "Generate the definition types from a directory of Bedrock JSON schemas",
+  )
+  .argument(
+    "<schemas>",
+    "Path to the schemas directory, which contains 'behavior' and 'resource'",
+  )
+  .option(
+    "-o, --out <path>",
+    "Path to write the types to",
+    "types/minecraft_definition_types.d.ts",
+  )
+  .action(async (schemasDir: string, options: { out: string }) => {
+    const spinner = ora("Generating definition types").start();
+
+    try {
+      const namespaces = await generateDefinitionTypes(schemasDir, options.out);
+
+      spinner.succeed(
+        `Generated ${namespaces.length} namespaces in ${options.out}`,
+      );
+    } catch (error) {
+      spinner.fail((error as Error).message);
+    }
+  });
+
 program
   .command("init")
   .description("Initialize a new project")
@@ -275,7 +986,7 @@ program
       name: string;
       includeRp: boolean;
       targetVersion: string;
-      scriptModules: string[];
+      scriptModules: ScriptModuleName[];
     }>([
       {
         type: "input",
@@ -303,66 +1014,16 @@ program
       },
     ]);
 
-    const scriptModulesSpinner = ora(
-      "Fetching script module types from npm",
-    ).start();
-
-    let anyExecsFailed = false;
-    const typeVersionPrompts: any[] = [];
-    const execPromises: Promise<void>[] = [];
-
-    for (const scriptModule of inquirerResponse.scriptModules) {
-      execPromises.push(
-        new Promise<void>((resolve) => {
-          childProcess.exec(
-            `npm view ${scriptModule} versions`,
-            (error, stdout) => {
-              if (error) {
-                console.warn(error);
-                anyExecsFailed = true;
-                return resolve();
-              }
-
-              typeVersionPrompts.push({
-                type: "list",
-                name: scriptModule,
-                message: `Which version of ${scriptModule} to use?`,
-                choices: (JSON.parse(stdout.replaceAll("'", '"')) as string[])
-                  // do not include release candidates
-                  .filter((v) => !v.includes("-rc"))
-                  // only show 20
-                  .slice(-20)
-                  // reverse so latest is at the top
-                  .reverse(),
-              });
-
-              resolve();
-            },
-          );
-        }),
-      );
-    }
-
-    await Promise.all(execPromises);
-
-    if (anyExecsFailed)
-      scriptModulesSpinner.warn("Some script modules could not be fetched");
-    else scriptModulesSpinner.succeed();
-
-    const typeVersionPromptResponse = await inquirer.prompt<{
-      [k: string]: string;
-    }>(typeVersionPrompts);
+    const typeVersionPromptResponse = await promptModuleVersions(
+      inquirerResponse.scriptModules,
+    );
 
     const moduleDependencies = Object.entries(typeVersionPromptResponse).map(
       ([moduleName, npmVersion]) => ({
         module_name: moduleName,
         "hopper:alias":
-          MINECRAFT_SCRIPT_MODULES[
-            moduleName as keyof typeof MINECRAFT_SCRIPT_MODULES
-          ].alias,
-        version: npmVersion.includes("-beta")
-          ? npmVersion.split("-beta")[0] + "-beta"
-          : npmVersion,
+          MINECRAFT_SCRIPT_MODULES[moduleName as ScriptModuleName].alias,
+        version: getManifestModuleVersion(npmVersion),
       }),
     );
 
@@ -385,7 +1046,7 @@ program
         fs.promises.mkdir(path.join(inquirerResponse.name, "src")),
         fs.promises.writeFile(
           path.join(inquirerResponse.name, ".gitignore"),
-          "/build\n/node_modules",
+          "/build\n/node_modules\n/.hopper",
         ),
         fs.promises.writeFile(
           path.join(inquirerResponse.name, "tsconfig.json"),
@@ -410,20 +1071,30 @@ program
             4,
           ),
         ),
+        fs.promises.writeFile(
+          path.join(inquirerResponse.name, CONFIG_FILE_NAMES[0]),
+          createConfigFileContent({
+            name: inquirerResponse.name,
+            targetVersion: inquirerResponse.targetVersion,
+            ...(inquirerResponse.includeRp ? {} : { rp: false }),
+            profiles: {
+              dev: { comMojang: true },
+              prod: { optimize: true, out: "build" },
+            },
+          }),
+        ),
         fs.promises.writeFile(
           path.join(inquirerResponse.name, "package.json"),
           JSON.stringify(
             {
               type: "module",
+              version: "1.0.0",
               scripts: {
-                "build-dev": `hopper build "${inquirerResponse.name}"${
-                  inquirerResponse.includeRp ? "" : " --no-rp"
-                } -m`,
-                "build-prod": `hopper build "${inquirerResponse.name}"${
-                  inquirerResponse.includeRp ? "" : " --no-rp"
-                } -Oo build`,
-                watch: `hopper watch "${inquirerResponse.name}" -m`,
-                clean: `hopper clean "${inquirerResponse.name}"`,
+                "build-dev": "hopper build --profile dev",
+                "build-prod": "hopper build --profile prod",
+                watch: "hopper watch --profile dev",
+                clean: "hopper clean --profile dev",
+                pack: "hopper pack --profile prod",
               },
               devDependencies: {
                 "@hopper-mcbe/hopper-mcbe": `^${VERSION}`,
@@ -446,16 +1117,10 @@ program
         ),
         fs.promises.writeFile(
           path.join(inquirerResponse.name, "types/script_globals.d.ts"),
-          `declare global {\n\tvar $: {\n\t\t${inquirerResponse.scriptModules
-            .map(
-              (moduleName) =>
-                `"${
-                  MINECRAFT_SCRIPT_MODULES[
-                    moduleName as keyof typeof MINECRAFT_SCRIPT_MODULES
-                  ].alias
-                }": typeof import("${moduleName}")`,
-            )
-            .join("\n\t\t")}\n\t}\n}\nexport {};`,
+          createScriptGlobalsContent(
+            inquirerResponse.scriptModules,
+            inquirerResponse.targetVersion,
+          ),
         ),
       ];
 
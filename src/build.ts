@@ -2,16 +2,53 @@ import * as vm from "vm";
 import * as path from "path";
 import * as esbuild from "esbuild";
 import * as fs from "fs";
+import * as crypto from "crypto";
 import {
+  CompileTimeEnv,
   CompileTimeGlobalObject,
   Define,
   DefineFileOptions,
   DefineFileRawOptions,
   FileDefinition,
+  Lang,
+  LangTranslations,
 } from "../types/script_globals_helper_types.js";
-import { writeFileRecursive } from "./utils.js";
+import {
+  listFilesRecursive,
+  mergeStrict,
+  toStringOrBuffer,
+  writeFileRecursive,
+} from "./utils.js";
+import { BuildOutputKind, recordBuildOutputs } from "./build_manifest.js";
+import { createLangFiles } from "./lang.js";
+import { createContent } from "./content.js";
+import { createFunctionContent } from "./mcfunction.js";
+import { createStructureContent } from "./structure.js";
+import { copyAsset, getAssetOutFile, isIgnoredAsset } from "./assets.js";
+import {
+  createRegistryFiles,
+  REGISTRIES,
+  REGISTRY_PATHS,
+  RegistryEntries,
+  RegistryName,
+} from "./registries.js";
+import { DefineName, validateDefinition } from "./validate.js";
+import {
+  createScriptModulesEsbuildPlugin,
+  readManifestScriptModules,
+  ScriptModule,
+} from "./script_modules.js";
+import { callPluginHooks } from "./plugins.js";
+import { getBdsWorldPath, registerWorldPacks, WorldPack } from "./bds.js";
+import { HopperPlugin, HopperPluginContext } from "../types/config_types.js";
+import {
+  createSourceMapper,
+  formatPosition,
+  formatPositionWithCodeFrame,
+  SourceMapper,
+} from "./source_map.js";
 import * as babelParser from "@babel/parser";
-import babelGenerator_ from "@babel/generator";
+import babelGenerator_, { GeneratorOptions } from "@babel/generator";
 import babelTraverse_, { NodePath } from "@babel/traverse";
 import * as babelTypes from "@babel/types";
 import * as terser from "terser";
@@ -21,22 +58,220 @@ const babelGenerator = babelGenerator_.default as typeof babelGenerator_;
 // @ts-expect-error default does not exist
 const babelTraverse = babelTraverse_.default as typeof babelTraverse_;
 
-function evaluateMemberExpressionOrCallExpressionAsNull(
-  path: NodePath<babelTypes.MemberExpression>,
+/**
+ * Replace an expression and the member accesses and calls chained on it with
+ * `null`, eg. `$.server.world.getDimension("overworld").runCommand("say")`.
+ */
+function evaluateMemberExpressionOrCallExpressionAsNull(path: NodePath) {
+  let chainPath = path;
+  while (
+    chainPath.parentPath?.isMemberExpression({ object: chainPath.node }) ||
+    chainPath.parentPath?.isCallExpression({ callee: chainPath.node }) ||
+    chainPath.parentPath?.isNewExpression({ callee: chainPath.node })
+  ) {
+    chainPath = chainPath.parentPath;
+  }
+
+  chainPath.replaceWith(babelTypes.nullLiteral());
+}
+
+/**
+ * Remove the imports of script modules, which only exist in game. The imported
+ * values are evaluated as `null` like the members of `$`.
+ */
+function removeScriptModuleImports(ast: babelTypes.File) {
+  babelTraverse(ast, {
+    ImportDeclaration(path) {
+      for (const specifier of path.node.specifiers) {
+        for (const reference of path.scope.getBinding(specifier.local.name)
+          ?.referencePaths ?? []) {
+          // skip references inside a chain that was already replaced
+          if (
+            reference.findParent(
+              (parent) =>
+                parent.removed ||
+                (!!parent.parentPath &&
+                  parent.parent !== parent.parentPath.node),
+            )
+          )
+            continue;
+          evaluateMemberExpressionOrCallExpressionAsNull(reference);
+        }
+      }
+      path.remove();
+    },
+  });
+}
+
+/**
+ * Whether an expression only combines literals, like the `__DEV__` and
+ * `__MODE__` defines after esbuild replaced them, eg.
+ * `"production" === "development"`. Evaluating it cannot skip side effects.
+ */
+function isLiteralExpression(node: babelTypes.Node): boolean {
+  switch (node.type) {
+    case "BooleanLiteral":
+    case "StringLiteral":
+    case "NumericLiteral":
+    case "NullLiteral":
+      return true;
+    case "UnaryExpression":
+      return node.operator === "!" && isLiteralExpression(node.argument);
+    case "BinaryExpression":
+      return (
+        ["===", "!==", "==", "!="].includes(node.operator) &&
+        isLiteralExpression(node.left) &&
+        isLiteralExpression(node.right)
+      );
+    case "LogicalExpression":
+      return isLiteralExpression(node.left) && isLiteralExpression(node.right);
+    case "ParenthesizedExpression":
+      return isLiteralExpression(node.expression);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Remove the branches of `if` statements and conditional expressions that
+ * cannot run, eg. `if (__DEV__)` outside of the development mode. esbuild only
+ * removes them when minifying. Only tests of literals are evaluated, so user
+ * code like `if ((sideEffect(), true))` is kept as it is.
+ */
+function removeConstantBranches(ast: babelTypes.File) {
+  function removeBranch(
+    path: NodePath<babelTypes.IfStatement | babelTypes.ConditionalExpression>,
+  ) {
+    if (!isLiteralExpression(path.node.test)) return;
+
+    const { confident, value } = path.get("test").evaluate() as {
+      confident: boolean;
+      value: unknown;
+    };
+    if (!confident) return;
+
+    const branch = value ? path.node.consequent : path.node.alternate;
+    if (branch) {
+      path.replaceWith(branch);
+    } else {
+      path.remove();
+    }
+  }
+
+  babelTraverse(ast, {
+    IfStatement: removeBranch,
+    ConditionalExpression: removeBranch,
+  });
+}
+
+/**
+ * Describe where a node of the bundle is in the original source.
+ */
+function formatBundleLocation(
+  node: babelTypes.Node,
+  mapBundlePosition: SourceMapper,
 ) {
-  path
-    .find(
-      (path) =>
-        path.isCallExpression() ||
-        (!path.parentPath?.isMemberExpression() &&
-          !path.parentPath?.isCallExpression()),
-    )
-    ?.replaceWith(babelTypes.nullLiteral());
+  const start = node.loc?.start;
+  const position = start && mapBundlePosition(start.line, start.column);
+
+  return position
+    ? formatPositionWithCodeFrame(position)
+    : `line ${start?.line} of the bundle`;
+}
+
+/**
+ * Find the `_.inline(...)` calls in the order they appear. Both the compile
+ * time and the runtime code are parsed from the same bundle, so the index of
+ * a call is the same in both.
+ */
+function findInlineCalls(
+  ast: babelTypes.File,
+  mapBundlePosition: SourceMapper,
+) {
+  const inlineCalls: NodePath<babelTypes.CallExpression>[] = [];
+
+  babelTraverse(ast, {
+    CallExpression(path) {
+      const callee = path.node.callee;
+      if (
+        callee.type !== "MemberExpression" ||
+        callee.computed ||
+        callee.object.type !== "Identifier" ||
+        callee.object.name !== "_" ||
+        callee.property.type !== "Identifier" ||
+        callee.property.name !== "inline"
+      )
+        return;
+
+      if (path.node.arguments.length !== 1) {
+        throw new Error(
+          `'_.inline' must have exactly 1 argument at ${formatBundleLocation(
+            path.node,
+            mapBundlePosition,
+          )}`,
+        );
+      }
+
+      inlineCalls.push(path);
+    },
+  });
+
+  return inlineCalls;
 }
 
-function executeAndGetFileDefs(bundleContent: string): FileDefinition[] {
+interface CompileTimeFileDefinition extends FileDefinition {
+  /**
+   * The `_.define` function that created the file, if it has a schema.
+   */
+  define?: DefineName;
+  /**
+   * Where the file was defined in the source, eg. `src/index.ts:3:1`.
+   */
+  callSite?: string;
+}
+
+interface CompileTimeResult {
+  fileDefinitions: CompileTimeFileDefinition[];
+  /**
+   * Lang entries by pack. Entries without a pack use the default pack.
+   */
+  langEntries: Map<"BP" | "RP" | undefined, Map<string, LangTranslations>>;
+  registryEntries: Map<RegistryName, RegistryEntries>;
+  /**
+   * The JSON of the values passed to each `_.inline` call that was evaluated.
+   */
+  inlineValues: Map<number, string | undefined>;
+}
+
+const COMPILE_TIME_FILE_NAME = "hopper-compile-time.js";
+
+/**
+ * @param bundleMap The source map of the bundle.
+ * @param bundleDir The directory that the source paths in the map are relative
+ * to.
+ * @param globals Globals of the compile time code besides `_`.
+ */
+async function executeCompileTime(
+  bundleContent: string,
+  bundleMap: string,
+  bundleDir: string,
+  env: CompileTimeEnv,
+  plugins: HopperPlugin[] | undefined,
+  pluginContext: HopperPluginContext,
+  globals: object = {},
+): Promise<CompileTimeResult> {
   const ast = babelParser.parse(bundleContent, { sourceType: "module" });
 
+  // pass the index of each inline call as a second argument
+  for (const [i, inlineCall] of findInlineCalls(
+    ast,
+    createSourceMapper(bundleMap, bundleDir),
+  ).entries()) {
+    inlineCall.node.arguments.push(babelTypes.numericLiteral(i));
+  }
+
+  removeScriptModuleImports(ast);
+
   babelTraverse(ast, {
     LabeledStatement(path) {
       if (path.node.label.name !== "$") return;
@@ -53,14 +288,49 @@ function executeAndGetFileDefs(bundleContent: string): FileDefinition[] {
     },
   });
 
-  const finalCode = babelGenerator(ast).code;
+  const generated = babelGenerator(
+    ast,
+    // 'inputSourceMap' is missing from the generator types
+    {
+      sourceMaps: true,
+      sourceFileName: COMPILE_TIME_FILE_NAME,
+      inputSourceMap: JSON.parse(bundleMap) as object,
+    } as GeneratorOptions,
+    bundleContent,
+  );
+  if (!generated.map) throw new Error("Babel did not produce a source map.");
+  const mapPosition = createSourceMapper(generated.map, bundleDir);
+
+  /**
+   * Get the original position of the first frame of a stack that is in the
+   * compile time code.
+   */
+  function findStackPosition(stack: string) {
+    const match = new RegExp(`${COMPILE_TIME_FILE_NAME}:(\\d+):(\\d+)`).exec(
+      stack,
+    );
+    if (!match) return;
+
+    return mapPosition(Number(match[1]), Number(match[2]) - 1);
+  }
+
+  // the first frame in the compile time code is the caller of the '_.define'
+  // function
+  function getCallSite() {
+    const position = findStackPosition(new Error().stack ?? "");
+    return position && formatPosition(position);
+  }
 
   let allFilesCount = 0;
   const fileOnceKeys = new Set();
 
-  const fileDefinitions: FileDefinition[] = [];
+  const fileDefinitions: CompileTimeFileDefinition[] = [];
 
-  function defineFile(content: string, o: DefineFileRawOptions) {
+  function defineFile(
+    content: string | Uint8Array,
+    o: DefineFileRawOptions,
+    defineName?: DefineName,
+  ) {
     const onceKey = o.once?.key;
     if (onceKey) {
       if (fileOnceKeys.has(onceKey)) return false;
@@ -72,6 +342,8 @@ function executeAndGetFileDefs(bundleContent: string): FileDefinition[] {
     fileDefinitions.push({
       path: path.join(o.rootDir, `${fileName}.${o.ext}`),
       content,
+      define: defineName,
+      callSite: getCallSite(),
     });
 
     allFilesCount++;
@@ -80,53 +352,220 @@ function executeAndGetFileDefs(bundleContent: string): FileDefinition[] {
   }
 
   function defineJsonFile(
+    defineName: DefineName,
     defaultRootDir: string,
     content: object,
     o: DefineFileOptions = {},
   ) {
-    return defineFile(JSON.stringify(content), {
-      name: o.name,
-      rootDir: o.rootDir ?? defaultRootDir,
-      ext: o.ext ?? "json",
-    });
+    return defineFile(
+      JSON.stringify(content),
+      {
+        name: o.name,
+        rootDir: o.rootDir ?? defaultRootDir,
+        ext: o.ext ?? "json",
+      },
+      defineName,
+    );
+  }
+
+  const registryEntries: CompileTimeResult["registryEntries"] = new Map();
+
+  function defineRegistryEntries(name: RegistryName, entries: object) {
+    let existingEntries = registryEntries.get(name);
+    if (!existingEntries) {
+      existingEntries = {};
+      registryEntries.set(name, existingEntries);
+    }
+
+    // cloned to not keep references to objects from the context
+    mergeStrict(
+      existingEntries,
+      JSON.parse(JSON.stringify(entries)) as RegistryEntries,
+      `'${REGISTRIES[name].path}'`,
+    );
   }
 
   const define: Define = {
     serverAnimationController: (content, o) =>
-      defineJsonFile("BP/animation_controllers", content, o),
+      defineJsonFile(
+        "serverAnimationController",
+        "BP/animation_controllers",
+        content,
+        o,
+      ),
     serverAnimation: (content, o) =>
-      defineJsonFile("BP/animations", content, o),
-    biome: (content, o) => defineJsonFile("BP/biomes", content, o),
-    block: (content, o) => defineJsonFile("BP/blocks", content, o),
-    dialogue: (content, o) => defineJsonFile("BP/dialogue", content, o),
-    entity: (content, o) => defineJsonFile("BP/entities", content, o),
+      defineJsonFile("serverAnimation", "BP/animations", content, o),
+    biome: (content, o) => defineJsonFile("biome", "BP/biomes", content, o),
+    block: (content, o) => defineJsonFile("block", "BP/blocks", content, o),
+    dialogue: (content, o) =>
+      defineJsonFile("dialogue", "BP/dialogue", content, o),
+    entity: (content, o) => defineJsonFile("entity", "BP/entities", content, o),
     featureRules: (content, o) =>
-      defineJsonFile("BP/feature_rules", content, o),
-    feature: (content, o) => defineJsonFile("BP/features", content, o),
-    item: (content, o) => defineJsonFile("BP/items", content, o),
-    lootTable: (content, o) => defineJsonFile("BP/loot_tables", content, o),
-    recipe: (content, o) => defineJsonFile("BP/recipes", content, o),
-    spawnRules: (content, o) => defineJsonFile("BP/spawn_rules", content, o),
-    tradeTable: (content, o) => defineJsonFile("BP/trading", content, o),
+      defineJsonFile("featureRules", "BP/feature_rules", content, o),
+    feature: (content, o) =>
+      defineJsonFile("feature", "BP/features", content, o),
+    item: (content, o) => defineJsonFile("item", "BP/items", content, o),
+    lootTable: (content, o) =>
+      defineJsonFile("lootTable", "BP/loot_tables", content, o),
+    recipe: (content, o) => defineJsonFile("recipe", "BP/recipes", content, o),
+    spawnRules: (content, o) =>
+      defineJsonFile("spawnRules", "BP/spawn_rules", content, o),
+    tradeTable: (content, o) =>
+      defineJsonFile("tradeTable", "BP/trading", content, o),
     clientAnimationController: (content, o) =>
-      defineJsonFile("RP/animation_controllers", content, o),
+      defineJsonFile(
+        "clientAnimationController",
+        "RP/animation_controllers",
+        content,
+        o,
+      ),
     clientAnimation: (content, o) =>
-      defineJsonFile("RP/animations", content, o),
-    attachable: (content, o) => defineJsonFile("RP/attachables", content, o),
-    clientEntity: (content, o) => defineJsonFile("RP/entity", content, o),
-    particle: (content, o) => defineJsonFile("RP/particles", content, o),
+      defineJsonFile("clientAnimation", "RP/animations", content, o),
+    attachable: (content, o) =>
+      defineJsonFile("attachable", "RP/attachables", content, o),
+    clientEntity: (content, o) =>
+      defineJsonFile("clientEntity", "RP/entity", content, o),
+    particle: (content, o) =>
+      defineJsonFile("particle", "RP/particles", content, o),
     renderController: (content, o) =>
-      defineJsonFile("RP/render_controllers", content, o),
-    rawText: defineFile,
+      defineJsonFile("renderController", "RP/render_controllers", content, o),
+    rawText: (content, o) => defineFile(content, o),
+    // copied so later changes to the array in the context are not written
+    rawBinary: (content, o) =>
+      defineFile(Buffer.from(toStringOrBuffer(content)), o),
+    itemTexture: (entries) => defineRegistryEntries("itemTexture", entries),
+    terrainTexture: (entries) =>
+      defineRegistryEntries("terrainTexture", entries),
+    flipbookTexture: (flipbookTextures) =>
+      defineRegistryEntries(
+        "flipbookTexture",
+        Object.fromEntries(
+          flipbookTextures.map((entry) => [entry.atlas_tile, entry]),
+        ),
+      ),
+    clientBlock: (entries) => defineRegistryEntries("clientBlock", entries),
+    soundDefinition: (entries) =>
+      defineRegistryEntries("soundDefinition", entries),
+    function: (name, commands, o = {}) => {
+      if (!name || /\s/.test(name)) {
+        throw new Error(
+          `Function name '${name}' cannot be empty or contain spaces`,
+        );
+      }
+
+      defineFile(createFunctionContent(commands), {
+        name,
+        rootDir: "BP/functions",
+        ext: "mcfunction",
+      });
+      if (o.tick) defineRegistryEntries("tick", { [name]: true });
+
+      return name;
+    },
+    structure: (name, structure) => {
+      const [namespace, structureName, ...rest] = name.split("/");
+      if (!namespace || rest.length || structureName === "") {
+        throw new Error(
+          `Structure name '${name}' must be in 'name' or 'namespace/name' format`,
+        );
+      }
+
+      defineFile(createStructureContent(structure), {
+        name,
+        rootDir: "BP/structures",
+        ext: "mcstructure",
+      });
+
+      return structureName
+        ? `${namespace}:${structureName}`
+        : `mystructure:${namespace}`;
+    },
   };
 
-  const _: CompileTimeGlobalObject = { define };
+  const langEntries: CompileTimeResult["langEntries"] = new Map();
+
+  const lang: Lang = {
+    set(key, translations, o = {}) {
+      for (const [language, value] of Object.entries(translations)) {
+        if (/[\r\n]/.test(value)) {
+          throw new Error(
+            `The ${language} value of lang key '${key}' cannot contain line breaks: ${JSON.stringify(
+              value,
+            )}`,
+          );
+        }
+      }
 
-  const context = vm.createContext({ _ });
+      let packEntries = langEntries.get(o.pack);
+      if (!packEntries) {
+        packEntries = new Map();
+        langEntries.set(o.pack, packEntries);
+      }
 
-  vm.runInContext(finalCode, context);
+      packEntries.set(key, { ...packEntries.get(key), ...translations });
+    },
+  };
+
+  const inlineValues: CompileTimeResult["inlineValues"] = new Map();
+
+  function inline(value: unknown, index: number) {
+    if (typeof value === "function" || typeof value === "symbol") {
+      throw new Error(`'_.inline' cannot inline a ${typeof value}`);
+    }
+
+    const json = JSON.stringify(value);
+
+    if (inlineValues.has(index) && inlineValues.get(index) !== json) {
+      throw new Error(
+        `'_.inline' was evaluated more than once with different values: ${inlineValues.get(
+          index,
+        )} and ${json}`,
+      );
+    }
+
+    inlineValues.set(index, json);
+
+    return value;
+  }
 
-  return fileDefinitions;
+  const _: CompileTimeGlobalObject = {
+    define,
+    content: createContent(define, lang),
+    lang,
+    inline: inline as CompileTimeGlobalObject["inline"],
+    env,
+  };
+
+  await callPluginHooks(plugins, "extendCompileTimeGlobal", async (plugin) => {
+    const members = await plugin.extendCompileTimeGlobal(_, pluginContext);
+
+    for (const [name, value] of Object.entries(members)) {
+      if (name in _) throw new Error(`'_.${name}' already exists`);
+      (_ as unknown as Record<string, unknown>)[name] = value;
+    }
+  });
+
+  const context = vm.createContext({ ...globals, _ });
+
+  try {
+    vm.runInContext(generated.code, context, {
+      filename: COMPILE_TIME_FILE_NAME,
+    });
+  } catch (error) {
+    // errors thrown by the compile time code are from another realm so they
+    // are not instances of 'Error'
+    const { name, message, stack } = error as Partial<Error>;
+    const position = findStackPosition(stack ?? "");
+    if (!position || message === undefined) throw error;
+
+    throw new Error(
+      `${
+        name && name !== "Error" ? `${name}: ${message}` : message
+      }\n    at ${formatPositionWithCodeFrame(position)}`,
+    );
+  }
+
+  return { fileDefinitions, langEntries, registryEntries, inlineValues };
 }
 
 type MinecraftManifestDependency =
@@ -135,42 +574,464 @@ type MinecraftManifestDependency =
       version: string;
       "hopper:alias": string;
     }
-  | {
-      uuid: string;
-      version: string;
-    };
+  | PackDependency;
+
+export interface PackDependency {
+  uuid: string;
+  version: number[];
+}
 
 interface MinecraftManifest {
+  header: { uuid: string; version: number[] };
   dependencies?: MinecraftManifestDependency[];
 }
 
-type BuildOutOptions = { outPath: string } | { comMojangPath: string };
+export type BuildOutOptions =
+  | { outPath: string }
+  | { comMojangPath: string }
+  | {
+      /**
+       * The directory of a Bedrock Dedicated Server.
+       */
+      bdsPath: string;
+      /**
+       * The world in the server to add the packs to.
+       */
+      world: string;
+    };
 
-interface BuildOptions {
+export interface BuildOptions {
   includeRp: boolean;
   indexPath: string;
   assetsPath: string;
+  /**
+   * Glob patterns of assets that are not copied, added to
+   * `DEFAULT_ASSET_IGNORE`.
+   */
+  assetIgnore?: string[];
+  /**
+   * Also minifies the JSON assets.
+   */
   optimize: boolean;
+  /**
+   * The build mode, eg. `development` or `production`. `__DEV__` is `true` in
+   * the `development` mode.
+   */
+  mode: string;
+  /**
+   * Values added to `_.env`.
+   */
+  env?: { [name: string]: string | number | boolean };
   out: BuildOutOptions;
   name: string;
   copyAssets: boolean;
+  sourcemap?: false | "external" | "inline";
+  /**
+   * Fail the build if a definition does not match its schema instead of
+   * warning.
+   */
+  strict?: boolean;
+  /**
+   * The target Minecraft version in 'x.x.x' format. Definitions without a
+   * `format_version` are validated against the types of this version.
+   */
+  targetVersion?: string;
+  /**
+   * Path to the build manifest used to track output files. Output files are
+   * not tracked if this is not specified.
+   */
+  buildManifestPath?: string;
+  /**
+   * Import aliases passed to esbuild, eg. to share code between projects.
+   */
+  alias?: { [name: string]: string };
+  plugins?: HopperPlugin[];
+  /**
+   * Dependencies added to the manifest of each pack.
+   */
+  packDependencies?: { BP?: PackDependency[]; RP?: PackDependency[] };
 }
 
 export function getOutPath(name: string, outOptions: BuildOutOptions) {
-  const outDirBp =
-    "outPath" in outOptions
-      ? path.join(outOptions.outPath, "BP")
-      : path.join(outOptions.comMojangPath, "development_behavior_packs", name);
+  if ("outPath" in outOptions) {
+    return {
+      outDirBp: path.join(outOptions.outPath, "BP"),
+      outDirRp: path.join(outOptions.outPath, "RP"),
+    };
+  }
+
+  if ("bdsPath" in outOptions) {
+    return {
+      outDirBp: path.join(outOptions.bdsPath, "behavior_packs", name),
+      outDirRp: path.join(outOptions.bdsPath, "resource_packs", name),
+    };
+  }
+
+  return {
+    outDirBp: path.join(
+      outOptions.comMojangPath,
+      "development_behavior_packs",
+      name,
+    ),
+    outDirRp: path.join(
+      outOptions.comMojangPath,
+      "development_resource_packs",
+      name,
+    ),
+  };
+}
 
-  const outDirRp =
-    "outPath" in outOptions
-      ? path.join(outOptions.outPath, "RP")
-      : path.join(outOptions.comMojangPath, "development_resource_packs", name);
+/**
+ * Get the out path of a file in the assets directory. Returns `undefined` if
+ * the file is ignored or not part of a pack that is being built.
+ */
+export function getAssetOutPath(options: BuildOptions, assetPath: string) {
+  const [pack, ...rest] = path
+    .relative(options.assetsPath, assetPath)
+    .split(path.sep);
+  if (!rest.length) return;
+  if (isIgnoredAsset([pack, ...rest].join("/"), options.assetIgnore)) return;
+
+  const { outDirBp, outDirRp } = getOutPath(options.name, options.out);
+  const outFile = getAssetOutFile(path.join(...rest));
+
+  if (pack === "BP") return path.join(outDirBp, outFile);
+  if (pack === "RP" && options.includeRp) return path.join(outDirRp, outFile);
+}
+
+/**
+ * How long each phase of a build took in milliseconds.
+ */
+export interface BuildTimings {
+  bundle: number;
+  compileTime: number;
+  transform: number;
+  write: number;
+}
 
-  return { outDirBp, outDirRp };
+export interface BuildResult {
+  /**
+   * Problems that did not stop the build.
+   */
+  warnings: string[];
+  timings: BuildTimings;
 }
 
-export async function build(options: BuildOptions) {
+/**
+ * Check if a file in the assets directory is merged with generated content
+ * instead of being copied as is.
+ */
+export function isMergedAsset(options: BuildOptions, assetPath: string) {
+  const relPath = path
+    .relative(options.assetsPath, assetPath)
+    .split(path.sep)
+    .join("/");
+
+  const manifestPack = /^(BP|RP)\/manifest\.json$/.exec(relPath)?.[1] as
+    | "BP"
+    | "RP"
+    | undefined;
+
+  return (
+    /^(BP|RP)\/texts\/([^/]+\.lang|languages\.json)$/.test(relPath) ||
+    REGISTRY_PATHS.includes(relPath) ||
+    !!(
+      manifestPack &&
+      // the manifests are registered in the world by the script build
+      ("bdsPath" in options.out ||
+        options.packDependencies?.[manifestPack]?.length)
+    )
+  );
+}
+
+/**
+ * Find the aliases of `$` used by the runtime code. Every alias is used if `$`
+ * is accessed dynamically, eg. `$[name]`.
+ */
+function findUsedScriptModuleAliases(
+  ast: babelTypes.File,
+  scriptModules: ScriptModule[],
+  mapBundlePosition: SourceMapper,
+) {
+  const aliases = new Set(scriptModules.map((module) => module.alias));
+  const usedAliases = new Set<string>();
+
+  babelTraverse(ast, {
+    Identifier(path) {
+      if (
+        path.node.name !== "$" ||
+        !path.isReferencedIdentifier() ||
+        path.scope.hasBinding("$")
+      )
+        return;
+
+      const parent = path.parentPath.node;
+      let alias: string | undefined;
+      if (parent.type === "MemberExpression" && parent.object === path.node) {
+        if (!parent.computed && parent.property.type === "Identifier") {
+          alias = parent.property.name;
+        } else if (parent.property.type === "StringLiteral") {
+          alias = parent.property.value;
+        }
+      }
+
+      if (alias === undefined) {
+        for (const alias of aliases) usedAliases.add(alias);
+        return;
+      }
+
+      if (!aliases.has(alias)) {
+        throw new Error(
+          `'$.${alias}' is not the alias of a script module in the BP manifest${
+            aliases.size
+              ? `. The aliases are ${[...aliases]
+                  .map((alias) => `'${alias}'`)
+                  .join(", ")}`
+              : ""
+          } at ${formatBundleLocation(path.node, mapBundlePosition)}`,
+        );
+      }
+      usedAliases.add(alias);
+    },
+  });
+
+  return usedAliases;
+}
+
+/**
+ * Create the code that imports the used script modules into `$`.
+ */
+function createScriptModulesBanner(
+  scriptModules: ScriptModule[],
+  usedAliases: Set<string>,
+) {
+  let imports = "";
+  let modulesKeyVal = "";
+  for (const [i, { moduleName, alias }] of scriptModules.entries()) {
+    if (!usedAliases.has(alias)) continue;
+
+    const importName = `__scriptModule${i}__`;
+    imports += `import*as ${importName} from"${moduleName}";`;
+    modulesKeyVal += `"${alias}":${importName},`;
+  }
+
+  return imports && `${imports}const $={${modulesKeyVal}};`;
+}
+
+/**
+ * Remove the compile time code from the bundle, replace the `_.inline` calls
+ * with their values and add the banner.
+ */
+async function transformBundle(
+  bundleContent: string,
+  bundleMap: string,
+  bundleDir: string,
+  inlineValues: CompileTimeResult["inlineValues"],
+  scriptModules: ScriptModule[],
+  options: BuildOptions,
+) {
+  const ast = babelParser.parse(bundleContent, { sourceType: "module" });
+
+  const mapBundlePosition = createSourceMapper(bundleMap, bundleDir);
+
+  for (const [i, inlineCall] of findInlineCalls(
+    ast,
+    mapBundlePosition,
+  ).entries()) {
+    if (!inlineValues.has(i)) {
+      throw new Error(
+        `'_.inline' was not evaluated at compile time at ${formatBundleLocation(
+          inlineCall.node,
+          mapBundlePosition,
+        )}`,
+      );
+    }
+
+    const json = inlineValues.get(i);
+    inlineCall.replaceWith(
+      json === undefined
+        ? babelTypes.identifier("undefined")
+        : babelTypes.valueToNode(JSON.parse(json)),
+    );
+  }
+
+  babelTraverse(ast, {
+    LabeledStatement(path) {
+      if (path.node.label.name !== "_") return;
+      path.remove();
+    },
+    MemberExpression(path) {
+      if (
+        path.node.object.type !== "Identifier" ||
+        path.node.object.name !== "_"
+      )
+        return;
+
+      evaluateMemberExpressionOrCallExpressionAsNull(path);
+    },
+  });
+
+  // before finding the used aliases so modules used only by removed branches
+  // are not imported
+  removeConstantBranches(ast);
+
+  const banner = createScriptModulesBanner(
+    scriptModules,
+    findUsedScriptModuleAliases(ast, scriptModules, mapBundlePosition),
+  );
+
+  const generated = babelGenerator(
+    ast,
+    // 'inputSourceMap' is missing from the generator types
+    {
+      sourceMaps: !!options.sourcemap,
+      sourceFileName: "bundle.js",
+      inputSourceMap: options.sourcemap && (JSON.parse(bundleMap) as object),
+    } as GeneratorOptions,
+    bundleContent,
+  );
+
+  // the banner is on its own line so the source map only has to be offset by
+  // a line
+  let finalBundleContent = banner
+    ? `${banner}\n${generated.code}`
+    : generated.code;
+  let finalBundleMap = generated.map && {
+    ...generated.map,
+    file: "bundle.js",
+    mappings: banner ? `;${generated.map.mappings}` : generated.map.mappings,
+  };
+
+  if (options.optimize) {
+    const minified = await terser.minify(finalBundleContent, {
+      module: true,
+      sourceMap: finalBundleMap
+        ? { content: JSON.stringify(finalBundleMap), asObject: true }
+        : false,
+    });
+    if (!minified.code) throw new Error("Terser did not produce an output.");
+    finalBundleContent = minified.code;
+    finalBundleMap = finalBundleMap && {
+      ...(minified.map as typeof finalBundleMap),
+      file: "bundle.js",
+    };
+  }
+
+  return {
+    content: finalBundleContent,
+    map: finalBundleMap ? JSON.stringify(finalBundleMap) : undefined,
+  };
+}
+
+function createPluginContext(options: BuildOptions): HopperPluginContext {
+  const { outDirBp, outDirRp } = getOutPath(options.name, options.out);
+
+  return {
+    projectName: options.name,
+    outDirBp,
+    outDirRp: options.includeRp ? outDirRp : undefined,
+    optimize: options.optimize,
+    mode: options.mode,
+  };
+}
+
+function createCompileTimeEnv(options: BuildOptions): CompileTimeEnv {
+  return {
+    ...options.env,
+    MODE: options.mode,
+    DEV: options.mode === "development",
+  };
+}
+
+/**
+ * @param scriptModuleSpecifiers Replaces the imports of script modules, eg.
+ * with mocks in tests.
+ */
+function createEsbuildOptions(
+  options: BuildOptions,
+  entryPath: string,
+  outPath: string,
+  scriptModuleSpecifiers?: { [moduleName: string]: string },
+) {
+  return {
+    bundle: true,
+    entryPoints: [entryPath],
+    format: "esm",
+    write: false,
+    // the out file is only used to make the source map paths relative to it
+    outfile: outPath,
+    // the map is always created to map compile time errors to the source
+    sourcemap: "external",
+    alias: options.alias,
+    // the compile time code sees the same values as the runtime code
+    define: {
+      __DEV__: JSON.stringify(options.mode === "development"),
+      __MODE__: JSON.stringify(options.mode),
+    },
+    plugins: [
+      createScriptModulesEsbuildPlugin(
+        path.join(options.assetsPath, "BP/manifest.json"),
+        scriptModuleSpecifiers,
+      ),
+      ...(options.plugins?.flatMap((plugin) => plugin.esbuildPlugins ?? []) ??
+        []),
+    ],
+    // the diagnostics are formatted into the errors and warnings instead
+    logLevel: "silent",
+  } satisfies esbuild.BuildOptions;
+}
+
+async function throwEsbuildErrors(error: unknown): Promise<never> {
+  const { errors } = error as Partial<esbuild.BuildFailure>;
+  if (!errors?.length) throw error;
+
+  throw new Error(
+    (await esbuild.formatMessages(errors, { kind: "error" }))
+      .join("")
+      .trimEnd(),
+  );
+}
+
+function getBundleOutput(outputFiles: esbuild.OutputFile[]) {
+  const bundleOutputFile = outputFiles.find(
+    (file) => !file.path.endsWith(".map"),
+  );
+  if (!bundleOutputFile) throw new Error("esbuild did not produce an output.");
+
+  const bundleMap = outputFiles.find((file) => file.path.endsWith(".map"))
+    ?.text;
+  if (!bundleMap) throw new Error("esbuild did not produce a source map.");
+
+  return { bundleContent: bundleOutputFile.text, bundleMap };
+}
+
+function createInlineSourceMapComment(map: string) {
+  return `\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(
+    map,
+  ).toString("base64")}`;
+}
+
+/**
+ * What is kept between the builds of a build context.
+ */
+interface BuildState {
+  esbuildContext?: esbuild.BuildContext<{ write: false }>;
+  compileTime?: { bundleContent: string; result: CompileTimeResult };
+  /**
+   * The transformed bundle and source map. The key is the script modules and
+   * the bundle it was created from.
+   */
+  bundle?: { key: string; content: string; map?: string };
+  /**
+   * Hashes of the content last written to each generated output file.
+   */
+  outputHashes: Map<string, string>;
+}
+
+async function runBuild(
+  options: BuildOptions,
+  state: BuildState,
+): Promise<BuildResult> {
   const bpManifestPath = path.join(options.assetsPath, "BP/manifest.json");
   const rpManifestPath = path.join(options.assetsPath, "RP/manifest.json");
 
@@ -186,115 +1047,454 @@ export async function build(options: BuildOptions) {
     throw new Error(`'${options.indexPath}' does not exist`);
   }
 
-  const bundleContent = (
-    await esbuild.build({
-      bundle: true,
-      entryPoints: [options.indexPath],
-      format: "esm",
-      write: false,
-    })
-  ).outputFiles[0].text;
+  const { outDirBp, outDirRp } = getOutPath(options.name, options.out);
+  const bundleOutPath = path.join(outDirBp, "scripts/bundle.js");
 
-  const fileDefs = executeAndGetFileDefs(bundleContent);
+  const timings = {} as BuildTimings;
+  let phaseStart = performance.now();
 
-  const { outDirBp, outDirRp } = getOutPath(options.name, options.out);
+  function endPhase(phase: keyof BuildTimings) {
+    const now = performance.now();
+    timings[phase] = Math.round(now - phaseStart);
+    phaseStart = now;
+  }
+
+  const pluginContext = createPluginContext(options);
+
+  state.esbuildContext ??= await esbuild.context(
+    createEsbuildOptions(options, options.indexPath, bundleOutPath),
+  );
+
+  let esbuildResult: Awaited<ReturnType<typeof state.esbuildContext.rebuild>>;
+  try {
+    esbuildResult = await state.esbuildContext.rebuild();
+  } catch (error) {
+    return throwEsbuildErrors(error);
+  }
+
+  const warnings: string[] = (
+    await esbuild.formatMessages(esbuildResult.warnings, { kind: "warning" })
+  ).map((warning) => warning.trimEnd());
+
+  const { bundleContent, bundleMap } = getBundleOutput(
+    esbuildResult.outputFiles,
+  );
+
+  endPhase("bundle");
+
+  // the compile time code only depends on the bundle
+  if (state.compileTime?.bundleContent !== bundleContent) {
+    state.compileTime = {
+      bundleContent,
+      result: await executeCompileTime(
+        bundleContent,
+        bundleMap,
+        path.dirname(bundleOutPath),
+        createCompileTimeEnv(options),
+        options.plugins,
+        pluginContext,
+      ),
+    };
+  }
+
+  const {
+    fileDefinitions: compileTimeFileDefs,
+    langEntries,
+    registryEntries,
+    inlineValues,
+  } = state.compileTime.result;
+
+  const validationErrors: string[] = [];
+
+  for (const fileDef of compileTimeFileDefs) {
+    if (!fileDef.define) continue;
+
+    for (const error of validateDefinition(
+      fileDef.define,
+      JSON.parse(fileDef.content.toString()),
+      options.targetVersion,
+    )) {
+      validationErrors.push(
+        `'${fileDef.path}' ${error.jsonPath}: ${error.message} (from _.define.${
+          fileDef.define
+        }${fileDef.callSite ? ` at ${fileDef.callSite}` : ""})`,
+      );
+    }
+  }
+
+  if (options.strict && validationErrors.length) {
+    throw new Error(
+      `Definitions do not match their schemas:\n${validationErrors.join("\n")}`,
+    );
+  }
+  warnings.push(...validationErrors);
+
+  // copied so the plugins do not change the cached definitions
+  let fileDefs: FileDefinition[] = compileTimeFileDefs.map((fileDef) => ({
+    path: fileDef.path,
+    content: fileDef.content,
+  }));
+
+  await callPluginHooks(
+    options.plugins,
+    "transformFileDefinitions",
+    async (plugin) => {
+      fileDefs = await plugin.transformFileDefinitions(fileDefs, pluginContext);
+    },
+  );
+
+  endPhase("compileTime");
+
+  const scriptModules = await readManifestScriptModules(bpManifestPath);
+
+  const bundleKey = `${JSON.stringify(scriptModules)}\n${bundleContent}`;
+  let transformedBundle = state.bundle;
+  if (transformedBundle?.key !== bundleKey) {
+    transformedBundle = state.bundle = {
+      key: bundleKey,
+      ...(await transformBundle(
+        bundleContent,
+        bundleMap,
+        path.dirname(bundleOutPath),
+        inlineValues,
+        scriptModules,
+        options,
+      )),
+    };
+  }
+
+  endPhase("transform");
 
   await fs.promises.mkdir(outDirBp, { recursive: true });
   if (options.includeRp) await fs.promises.mkdir(outDirRp, { recursive: true });
 
-  const writePromises: Promise<unknown>[] = [];
+  const outputs = new Map<string, BuildOutputKind>();
+
+  const packs: { name: "BP" | "RP"; outDir: string }[] = [
+    { name: "BP", outDir: outDirBp },
+  ];
+  if (options.includeRp) packs.push({ name: "RP", outDir: outDirRp });
 
   if (options.copyAssets) {
-    writePromises.push(
-      fs.promises.cp(path.join(options.assetsPath, "BP"), outDirBp, {
-        recursive: true,
+    const copies: { assetPath: string; outPath: string }[] = [];
+
+    for (const pack of packs) {
+      const packAssetsPath = path.join(options.assetsPath, pack.name);
+
+      for (const file of await listFilesRecursive(packAssetsPath)) {
+        if (isIgnoredAsset(`${pack.name}/${file}`, options.assetIgnore)) {
+          continue;
+        }
+
+        const assetPath = path.join(packAssetsPath, file);
+        const outPath = path.join(pack.outDir, getAssetOutFile(file));
+        if (outputs.has(outPath)) {
+          throw new Error(
+            `'${assetPath}' is written to '${outPath}' which another asset is written to`,
+          );
+        }
+
+        outputs.set(outPath, "asset");
+        copies.push({ assetPath, outPath });
+      }
+    }
+
+    // assets are copied first so generated files can overwrite them
+    await Promise.all(
+      copies.map(({ assetPath, outPath }) => {
+        // the copy may replace a generated file
+        state.outputHashes.delete(outPath);
+        return copyAsset(assetPath, outPath, options.optimize);
       }),
     );
+  }
+
+  const writePromises: Promise<unknown>[] = [];
+
+  function writeOutput(
+    outPath: string,
+    content: string | Uint8Array,
+    kind: BuildOutputKind = "generated",
+  ) {
+    outputs.set(outPath, kind);
+
+    const hash = crypto.createHash("sha1").update(content).digest("hex");
+    if (state.outputHashes.get(outPath) === hash && fs.existsSync(outPath)) {
+      return;
+    }
+
+    state.outputHashes.set(outPath, hash);
+    writePromises.push(writeFileRecursive(outPath, content));
+  }
+
+  for (const pack of packs) {
+    const manifestPath = pack.name === "BP" ? bpManifestPath : rpManifestPath;
+    const manifestOutPath = path.join(pack.outDir, "manifest.json");
+    const packDependencies = options.packDependencies?.[pack.name] ?? [];
+
+    if (!packDependencies.length) {
+      outputs.set(manifestOutPath, "asset");
+      writePromises.push(fs.promises.copyFile(manifestPath, manifestOutPath));
+      continue;
+    }
+
+    const manifest = JSON.parse(
+      await fs.promises.readFile(manifestPath, "utf8"),
+    ) as MinecraftManifest;
+    const dependencies = (manifest.dependencies ??= []);
+
+    for (const packDependency of packDependencies) {
+      if (
+        !dependencies.some(
+          (dependency) =>
+            "uuid" in dependency && dependency.uuid === packDependency.uuid,
+        )
+      ) {
+        dependencies.push(packDependency);
+      }
+    }
+
+    writeOutput(
+      manifestOutPath,
+      JSON.stringify(manifest, undefined, 4),
+      "asset",
+    );
+  }
 
-    if (options.includeRp) {
-      writePromises.push(
-        fs.promises.cp(path.join(options.assetsPath, "RP"), outDirRp, {
-          recursive: true,
-        }),
+  for (const fileDef of fileDefs) {
+    const pack = packs.find((pack) => fileDef.path.startsWith(pack.name));
+    if (!pack) {
+      // not written so there is no file that is never removed
+      warnings.push(
+        `'${fileDef.path}' is not written because the resource pack is not included`,
       );
+      continue;
     }
+
+    writeOutput(path.join(pack.outDir, fileDef.path.slice(3)), fileDef.content);
   }
 
-  if (options.includeRp) {
-    writePromises.push(
-      fs.promises.copyFile(
-        rpManifestPath,
-        path.join(outDirRp, "manifest.json"),
-      ),
+  for (const registryFile of await createRegistryFiles(
+    options.assetsPath,
+    registryEntries,
+    options.name,
+    options.optimize,
+  )) {
+    const pack = packs.find((pack) => registryFile.path.startsWith(pack.name));
+    if (!pack) continue;
+
+    writeOutput(
+      path.join(pack.outDir, registryFile.path.slice(3)),
+      registryFile.content,
     );
   }
 
-  writePromises.push(
-    fs.promises.copyFile(bpManifestPath, path.join(outDirBp, "manifest.json")),
-  );
+  const defaultLangPack = options.includeRp ? "RP" : "BP";
+  for (const pack of packs) {
+    const packLangEntries = new Map([
+      ...(langEntries.get(pack.name) ?? []),
+      ...((pack.name === defaultLangPack && langEntries.get(undefined)) || []),
+    ]);
 
-  for (const fileDef of fileDefs) {
-    const outPath = fileDef.path.startsWith("BP") ? outDirBp : outDirRp;
-    writePromises.push(
-      writeFileRecursive(
-        path.join(outPath, fileDef.path.slice(3)),
-        fileDef.content,
-      ),
+    const langFiles = await createLangFiles(
+      path.join(options.assetsPath, pack.name),
+      packLangEntries,
+      options.optimize,
     );
+
+    for (const langFile of langFiles.files) {
+      writeOutput(path.join(pack.outDir, langFile.path), langFile.content);
+    }
+    warnings.push(...langFiles.warnings);
   }
 
-  const bpManifest = JSON.parse(
-    await fs.promises.readFile(bpManifestPath, "utf8"),
-  ) as MinecraftManifest;
+  let finalBundleContent = transformedBundle.content;
 
-  // create runtime banner
-  let imports = "";
-  let modulesKeyVal = "";
-  for (const [i, dependency] of (bpManifest.dependencies ?? []).entries()) {
-    if (!("module_name" in dependency)) continue;
+  await callPluginHooks(options.plugins, "transformBundle", async (plugin) => {
+    finalBundleContent = await plugin.transformBundle(
+      finalBundleContent,
+      pluginContext,
+    );
+  });
 
-    const alias = dependency["hopper:alias"] || dependency.module_name;
-    const importName = `__scriptModule${i}__`;
+  if (transformedBundle.map) {
+    if (options.sourcemap === "inline") {
+      finalBundleContent += createInlineSourceMapComment(transformedBundle.map);
+    } else {
+      finalBundleContent += "\n//# sourceMappingURL=bundle.js.map";
+      writeOutput(`${bundleOutPath}.map`, transformedBundle.map);
+    }
+  }
 
-    imports += `import*as ${importName} from"${dependency.module_name}";`;
-    modulesKeyVal += `"${alias}":${importName},`;
+  writeOutput(bundleOutPath, finalBundleContent);
+
+  try {
+    await Promise.all(writePromises);
+  } catch (error) {
+    // the written files are unknown so everything is written next time
+    state.outputHashes.clear();
+    throw error;
   }
-  const banner = `${imports}const $={${modulesKeyVal}};`;
-  //
 
-  const ast = babelParser.parse(bundleContent, { sourceType: "module" });
+  if (options.buildManifestPath) {
+    await recordBuildOutputs(
+      options.buildManifestPath,
+      options.includeRp ? [outDirBp, outDirRp] : [outDirBp],
+      options.copyAssets ? ["asset", "generated"] : ["generated"],
+      outputs,
+    );
+  }
 
-  babelTraverse(ast, {
-    LabeledStatement(path) {
-      if (path.node.label.name !== "_") return;
-      path.remove();
-    },
-    MemberExpression(path) {
-      if (
-        path.node.object.type !== "Identifier" ||
-        path.node.object.name !== "_"
-      )
-        return;
+  for (const outPath of state.outputHashes.keys()) {
+    if (!outputs.has(outPath)) state.outputHashes.delete(outPath);
+  }
 
-      evaluateMemberExpressionOrCallExpressionAsNull(path);
+  if ("bdsPath" in options.out) {
+    const { bdsPath, world } = options.out;
+    const worldPacks: WorldPack[] = [];
+
+    for (const pack of packs) {
+      const { header } = JSON.parse(
+        await fs.promises.readFile(
+          path.join(options.assetsPath, pack.name, "manifest.json"),
+          "utf8",
+        ),
+      ) as MinecraftManifest;
+
+      worldPacks.push({
+        pack: pack.name,
+        uuid: header.uuid,
+        version: header.version,
+      });
+    }
+
+    if (!fs.existsSync(getBdsWorldPath(bdsPath, world))) {
+      warnings.push(
+        `World '${world}' does not exist yet. The packs are applied when the server creates it`,
+      );
+    }
+
+    await registerWorldPacks(bdsPath, world, worldPacks);
+  }
+
+  await callPluginHooks(options.plugins, "afterWrite", (plugin) =>
+    plugin.afterWrite([...outputs.keys()], pluginContext),
+  );
+
+  endPhase("write");
+
+  return { warnings, timings };
+}
+
+export interface BuildContext {
+  /**
+   * Build the project. Only the changed parts are rebuilt and rewritten.
+   */
+  rebuild(): Promise<BuildResult>;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Create a context to build a project more than once, eg. when watching.
+ */
+export function createBuildContext(options: BuildOptions): BuildContext {
+  const state: BuildState = { outputHashes: new Map() };
+
+  return {
+    rebuild: () => runBuild(options, state),
+    dispose: async () => {
+      await state.esbuildContext?.dispose();
+      state.esbuildContext = undefined;
     },
-  });
+  };
+}
 
-  let finalBundleContent = banner + babelGenerator(ast).code;
+export async function build(options: BuildOptions): Promise<BuildResult> {
+  const context = createBuildContext(options);
 
-  if (options.optimize) {
-    const code = (await terser.minify(finalBundleContent, { module: true }))
-      .code;
-    if (!code) throw new Error("Terser did not produce an output.");
-    finalBundleContent = code;
+  try {
+    return await context.rebuild();
+  } finally {
+    await context.dispose();
   }
+}
 
-  writePromises.push(
-    writeFileRecursive(
-      path.join(outDirBp, "scripts/bundle.js"),
-      finalBundleContent,
-    ),
+export interface BundleScriptOptions {
+  /**
+   * Where the bundle is written. The source map paths are relative to it.
+   */
+  outPath: string;
+  /**
+   * Replaces the imports of script modules, eg. with mocks in tests.
+   */
+  scriptModuleSpecifiers?: { [moduleName: string]: string };
+  /**
+   * Globals of the compile time code besides `_`, eg. for the runtime code
+   * outside of `$` blocks that uses them.
+   */
+  compileTimeGlobals?: object;
+}
+
+/**
+ * Bundle a script like a build without writing any files, eg. to run it in
+ * tests. The compile time code is run for the values of `_.inline` but its
+ * definitions are not used. The source map is inlined.
+ */
+export async function bundleScript(
+  options: BuildOptions,
+  entryPath: string,
+  o: BundleScriptOptions,
+) {
+  const bpManifestPath = path.join(options.assetsPath, "BP/manifest.json");
+  if (!fs.existsSync(bpManifestPath)) {
+    throw new Error(`'${bpManifestPath}' does not exist`);
+  }
+
+  let esbuildResult: esbuild.BuildResult<{ write: false }>;
+  try {
+    esbuildResult = await esbuild.build(
+      createEsbuildOptions(
+        options,
+        entryPath,
+        o.outPath,
+        o.scriptModuleSpecifiers,
+      ),
+    );
+  } catch (error) {
+    return throwEsbuildErrors(error);
+  }
+
+  const { bundleContent, bundleMap } = getBundleOutput(
+    esbuildResult.outputFiles,
+  );
+  const bundleDir = path.dirname(o.outPath);
+
+  const { inlineValues } = await executeCompileTime(
+    bundleContent,
+    bundleMap,
+    bundleDir,
+    createCompileTimeEnv(options),
+    options.plugins,
+    createPluginContext(options),
+    o.compileTimeGlobals,
+  );
+
+  const scriptModules = (await readManifestScriptModules(bpManifestPath)).map(
+    (module) => ({
+      ...module,
+      moduleName:
+        o.scriptModuleSpecifiers?.[module.moduleName] ?? module.moduleName,
+    }),
+  );
+
+  const { content, map } = await transformBundle(
+    bundleContent,
+    bundleMap,
+    bundleDir,
+    inlineValues,
+    scriptModules,
+    { ...options, optimize: false, sourcemap: "inline" },
   );
 
-  await Promise.all(writePromises);
+  return map ? content + createInlineSourceMapComment(map) : content;
 }
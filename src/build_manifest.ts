@@ -0,0 +1,193 @@
+import * as path from "path";
+import * as fs from "fs";
+import { writeFileRecursive } from "./utils.js";
+
+/**
+ * `asset` files are copied from the assets directory. `generated` files are
+ * produced by the scripts, eg. file definitions and the script bundle.
+ */
+export type BuildOutputKind = "asset" | "generated";
+
+/**
+ * Records which output files Hopper wrote so stale ones can be removed
+ * without touching files that were written by hand.
+ */
+export interface BuildManifest {
+  /**
+   * Absolute output file paths to the kind of output.
+   */
+  files: { [outPath: string]: BuildOutputKind };
+}
+
+const updateQueues = new Map<string, Promise<unknown>>();
+
+async function readBuildManifest(
+  buildManifestPath: string,
+): Promise<BuildManifest> {
+  try {
+    return JSON.parse(
+      await fs.promises.readFile(buildManifestPath, "utf8"),
+    ) as BuildManifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT")
+      return { files: {} };
+    throw error;
+  }
+}
+
+/**
+ * Read, update and write the build manifest. Updates to the same manifest are
+ * run one at a time.
+ */
+export function updateBuildManifest<T>(
+  buildManifestPath: string,
+  updater: (manifest: BuildManifest) => Promise<T> | T,
+): Promise<T> {
+  const previous = updateQueues.get(buildManifestPath) ?? Promise.resolve();
+
+  const update = previous
+    .catch(() => {})
+    .then(async () => {
+      const manifest = await readBuildManifest(buildManifestPath);
+      const result = await updater(manifest);
+      await writeFileRecursive(
+        buildManifestPath,
+        JSON.stringify(manifest, undefined, 2),
+      );
+      return result;
+    });
+
+  updateQueues.set(buildManifestPath, update);
+
+  return update;
+}
+
+/**
+ * Whether a path is inside one of the directories, not one of the directories
+ * itself.
+ */
+function isInside(filePath: string, dirs: string[]) {
+  return dirs.some((dir) => {
+    const rel = path.relative(dir, filePath);
+    return (
+      rel !== "" &&
+      rel !== ".." &&
+      !rel.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(rel)
+    );
+  });
+}
+
+/**
+ * Remove a file and any parent directories it leaves empty, stopping at the
+ * root out directory.
+ */
+async function removeOutputFile(filePath: string, rootDirs: string[]) {
+  await fs.promises.rm(filePath, { force: true });
+
+  let dir = path.dirname(filePath);
+  while (isInside(dir, rootDirs)) {
+    try {
+      await fs.promises.rmdir(dir);
+    } catch {
+      // not empty or already removed
+      break;
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+/**
+ * Record the files written by a build and remove the files of the same kinds
+ * that a previous build wrote to the same out directories but this build did
+ * not.
+ *
+ * @param outDirs The out directories the build wrote to.
+ * @param kinds The kinds of output the build wrote.
+ * @param outputs The files written by the build.
+ */
+export function recordBuildOutputs(
+  buildManifestPath: string,
+  outDirs: string[],
+  kinds: BuildOutputKind[],
+  outputs: Map<string, BuildOutputKind>,
+) {
+  const resolvedOutDirs = outDirs.map((dir) => path.resolve(dir));
+
+  return updateBuildManifest(buildManifestPath, async (manifest) => {
+    const resolvedOutputs = new Map(
+      [...outputs].map(([filePath, kind]) => [path.resolve(filePath), kind]),
+    );
+
+    for (const [filePath, kind] of Object.entries(manifest.files)) {
+      if (
+        !kinds.includes(kind) ||
+        resolvedOutputs.has(filePath) ||
+        !isInside(filePath, resolvedOutDirs)
+      )
+        continue;
+
+      await removeOutputFile(filePath, resolvedOutDirs);
+      delete manifest.files[filePath];
+    }
+
+    for (const [filePath, kind] of resolvedOutputs) {
+      manifest.files[filePath] = kind;
+    }
+  });
+}
+
+/**
+ * Record a single output file.
+ */
+export function recordBuildOutput(
+  buildManifestPath: string,
+  filePath: string,
+  kind: BuildOutputKind,
+) {
+  return updateBuildManifest(buildManifestPath, (manifest) => {
+    manifest.files[path.resolve(filePath)] = kind;
+  });
+}
+
+/**
+ * Remove an output file if it was written by Hopper.
+ *
+ * @returns If the file was removed.
+ */
+export function removeBuildOutput(
+  buildManifestPath: string,
+  filePath: string,
+  outDirs: string[],
+) {
+  const resolvedPath = path.resolve(filePath);
+
+  return updateBuildManifest(buildManifestPath, async (manifest) => {
+    if (!manifest.files[resolvedPath]) return false;
+
+    await removeOutputFile(
+      resolvedPath,
+      outDirs.map((dir) => path.resolve(dir)),
+    );
+    delete manifest.files[resolvedPath];
+
+    return true;
+  });
+}
+
+/**
+ * Forget every output file inside the out directories, eg. after they were
+ * removed entirely.
+ */
+export function forgetBuildOutputs(
+  buildManifestPath: string,
+  outDirs: string[],
+) {
+  const resolvedOutDirs = outDirs.map((dir) => path.resolve(dir));
+
+  return updateBuildManifest(buildManifestPath, (manifest) => {
+    for (const filePath of Object.keys(manifest.files)) {
+      if (isInside(filePath, resolvedOutDirs)) delete manifest.files[filePath];
+    }
+  });
+}
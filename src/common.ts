@@ -1 +1,4 @@
 export const VERSION = "0.3.0";
+
+export const DEFAULT_COM_MOJANG_PATH =
+  "%localappdata%\\Packages\\Microsoft.MinecraftUWP_8wekyb3d8bbwe\\LocalState\\games\\com.mojang";
@@ -0,0 +1,309 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as url from "url";
+import * as esbuild from "esbuild";
+import {
+  HopperConfig,
+  HopperProfile,
+  HopperWorkspaceConfig,
+} from "../types/config_types.js";
+import { BuildOptions, BuildOutOptions } from "./build.js";
+import { readBdsLevelName } from "./bds.js";
+import { DEFAULT_HOT_RELOAD_PORT } from "./hot_reload.js";
+import { parseFormatVersion } from "./validate.js";
+import { resolveFilePathEnvironmentVariables } from "./utils.js";
+import { DEFAULT_COM_MOJANG_PATH } from "./common.js";
+
+export const CONFIG_FILE_NAMES = [
+  "hopper.config.ts",
+  "hopper.config.js",
+  "hopper.config.json",
+];
+
+export interface ResolvedProfile extends HopperProfile {
+  name: string;
+  /**
+   * The directory of the project. The other paths already include it.
+   */
+  root: string;
+  entry: string;
+  src: string;
+  assets: string;
+  rp: boolean;
+  targetVersion?: string;
+}
+
+export function findConfigPath(dir: string) {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const configPath = path.join(dir, fileName);
+    if (fs.existsSync(configPath)) return configPath;
+  }
+}
+
+async function importConfigModule(configPath: string) {
+  let modulePath = configPath;
+  let tempPath: string | undefined;
+
+  if (configPath.endsWith(".ts")) {
+    const code = (
+      await esbuild.build({
+        bundle: true,
+        entryPoints: [configPath],
+        format: "esm",
+        platform: "node",
+        packages: "external",
+        write: false,
+      })
+    ).outputFiles[0].text;
+
+    // written next to the config so that imports resolve the same way
+    tempPath = path.join(
+      path.dirname(configPath),
+      `.hopper.config.${process.pid}.mjs`,
+    );
+    await fs.promises.writeFile(tempPath, code);
+    modulePath = tempPath;
+  }
+
+  try {
+    const module = (await import(
+      url.pathToFileURL(path.resolve(modulePath)).href
+    )) as { default?: unknown };
+    return module.default;
+  } finally {
+    if (tempPath) await fs.promises.rm(tempPath, { force: true });
+  }
+}
+
+export async function loadConfig(
+  dir = process.cwd(),
+): Promise<HopperConfig | HopperWorkspaceConfig | undefined> {
+  const configPath = findConfigPath(dir);
+  if (!configPath) return;
+
+  const config = configPath.endsWith(".json")
+    ? (JSON.parse(await fs.promises.readFile(configPath, "utf8")) as unknown)
+    : await importConfigModule(configPath);
+
+  if (typeof config !== "object" || config === null) {
+    throw new Error(`'${configPath}' must export a config object`);
+  }
+
+  return config as HopperConfig | HopperWorkspaceConfig;
+}
+
+export function isWorkspaceConfig(
+  config: HopperConfig | HopperWorkspaceConfig,
+): config is HopperWorkspaceConfig {
+  return "members" in config;
+}
+
+function resolveProjectPath(root: string, filePath: string) {
+  return path.isAbsolute(filePath) ? filePath : path.join(root, filePath);
+}
+
+/**
+ * Merge profiles from lowest to highest priority. The out target ('comMojang',
+ * 'out' or 'bds') is treated as a single option so a higher priority profile
+ * can switch between them.
+ */
+function mergeProfiles(...profiles: (HopperProfile | undefined)[]) {
+  const merged: HopperProfile = {};
+
+  for (const profile of profiles) {
+    if (!profile) continue;
+
+    if (
+      profile.comMojang !== undefined ||
+      profile.out !== undefined ||
+      profile.bds !== undefined
+    ) {
+      delete merged.comMojang;
+      delete merged.out;
+      delete merged.bds;
+    }
+
+    const previousHotReload = merged.hotReload;
+
+    for (const [key, value] of Object.entries(profile)) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+
+    // eg. a port or a bare '--hot-reload' from the CLI keeps the port and
+    // commands from the config
+    if (typeof previousHotReload === "object") {
+      if (profile.hotReload === true) {
+        merged.hotReload = previousHotReload;
+      } else if (typeof profile.hotReload === "object") {
+        merged.hotReload = { ...previousHotReload, ...profile.hotReload };
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Resolve the project options from the project config, the selected profile
+ * and the options passed through the CLI, in that order of priority.
+ */
+export async function resolveProfile(
+  name: string | undefined,
+  cliOptions: HopperProfile,
+  profileName?: string,
+  root = ".",
+): Promise<ResolvedProfile> {
+  const config = await loadConfig(root);
+
+  if (config && isWorkspaceConfig(config)) {
+    throw new Error(
+      `'${findConfigPath(
+        root,
+      )}' is a workspace config. Build it without a project name`,
+    );
+  }
+
+  const { profiles = {}, ...baseProfile } =
+    config ?? ({} as Partial<HopperConfig>);
+
+  if (profileName && !profiles[profileName]) {
+    throw new Error(
+      config
+        ? `Profile '${profileName}' does not exist in '${findConfigPath(root)}'`
+        : `Profile '${profileName}' does not exist`,
+    );
+  }
+
+  const profile = mergeProfiles(
+    baseProfile,
+    profileName ? profiles[profileName] : undefined,
+    cliOptions,
+  );
+
+  const resolvedName = name ?? config?.name;
+  if (!resolvedName) {
+    throw new Error(
+      `A project name must be specified or a '${CONFIG_FILE_NAMES[0]}' must exist`,
+    );
+  }
+
+  if (config?.targetVersion && !parseFormatVersion(config.targetVersion)) {
+    throw new Error(
+      `Target version '${config.targetVersion}' must be in 'x.x.x' format where 'x' is an integer`,
+    );
+  }
+
+  return {
+    ...profile,
+    name: resolvedName,
+    root,
+    entry: resolveProjectPath(root, profile.entry ?? "src/index.ts"),
+    src: resolveProjectPath(root, profile.src ?? "src"),
+    assets: resolveProjectPath(root, profile.assets ?? "assets"),
+    rp: profile.rp ?? true,
+    targetVersion: config?.targetVersion,
+  };
+}
+
+export function createConfigFileContent(config: HopperConfig) {
+  return `import type { HopperConfig } from "@hopper-mcbe/hopper-mcbe/types/config_types";\n\nexport default ${JSON.stringify(
+    config,
+    undefined,
+    4,
+  )} satisfies HopperConfig;\n`;
+}
+
+export function getHotReloadOptions(profile: HopperProfile) {
+  if (!profile.hotReload) return;
+
+  const options = profile.hotReload === true ? {} : profile.hotReload;
+
+  return {
+    port: options.port ?? DEFAULT_HOT_RELOAD_PORT,
+    commands: ["reload", ...(options.commands ?? [])],
+  };
+}
+
+export const BUILD_MANIFEST_PATH = ".hopper/build-manifest.json";
+
+/**
+ * Where `hopper test` writes the bundled test files.
+ */
+export const TEST_BUNDLES_PATH = ".hopper/test";
+
+export function getBuildOptions(
+  profile: ResolvedProfile,
+  copyAssets: boolean,
+): BuildOptions {
+  const outTargetCount = [profile.comMojang, profile.out, profile.bds].filter(
+    (target) => !!target,
+  ).length;
+
+  if (!outTargetCount) {
+    throw new Error("'--com-mojang', '--out' or '--bds' must be specified");
+  }
+
+  if (outTargetCount > 1) {
+    throw new Error(
+      "Cannot specify more than one of '--com-mojang', '--out' and '--bds'. Use one",
+    );
+  }
+
+  return {
+    name: profile.name,
+    copyAssets,
+    includeRp: profile.rp,
+    indexPath: profile.entry,
+    assetsPath: profile.assets,
+    assetIgnore: profile.assetIgnore,
+    optimize: !!profile.optimize,
+    mode: profile.mode ?? (profile.optimize ? "production" : "development"),
+    env: profile.env,
+    strict: !!profile.strict,
+    targetVersion: profile.targetVersion,
+    plugins: profile.plugins,
+    sourcemap:
+      profile.sourcemap === true ? "external" : profile.sourcemap || false,
+    buildManifestPath: path.join(profile.root, BUILD_MANIFEST_PATH),
+    out: getBuildOutOptions(profile),
+  };
+}
+
+function getBuildOutOptions(profile: ResolvedProfile): BuildOutOptions {
+  if (profile.out) {
+    return {
+      outPath: resolveProjectPath(
+        profile.root,
+        resolveFilePathEnvironmentVariables(profile.out),
+      ),
+    };
+  }
+
+  if (profile.bds) {
+    const bdsPath = resolveProjectPath(
+      profile.root,
+      resolveFilePathEnvironmentVariables(profile.bds),
+    );
+
+    if (!fs.existsSync(bdsPath)) {
+      throw new Error(`'${bdsPath}' does not exist`);
+    }
+
+    const world = profile.world ?? readBdsLevelName(bdsPath);
+    if (!world) {
+      throw new Error(
+        `'--world' must be specified when '${bdsPath}' has no 'level-name' in its 'server.properties'`,
+      );
+    }
+
+    return { bdsPath, world };
+  }
+
+  return {
+    comMojangPath: resolveFilePathEnvironmentVariables(
+      typeof profile.comMojang === "string"
+        ? profile.comMojang
+        : DEFAULT_COM_MOJANG_PATH,
+    ),
+  };
+}
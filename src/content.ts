@@ -0,0 +1,297 @@
+import {
+  BlockFaceTextures,
+  Content,
+  ContentDisplayName,
+  Define,
+  DefineFileOptions,
+  Lang,
+} from "../types/script_globals_helper_types.js";
+
+const DEFAULT_FORMAT_VERSION = "1.20.0";
+
+const BLOCK_FACES = ["up", "down", "north", "south", "east", "west"] as const;
+
+type DefineJsonName = Exclude<
+  keyof Define,
+  | "rawText"
+  | "rawBinary"
+  | "itemTexture"
+  | "terrainTexture"
+  | "flipbookTexture"
+  | "clientBlock"
+  | "soundDefinition"
+  | "function"
+  | "structure"
+>;
+
+/**
+ * Call a `_.define` function with content built by a builder. The content is
+ * validated against the definition types like any other definition.
+ */
+function defineJson(
+  define: Define,
+  defineName: DefineJsonName,
+  content: object,
+  options: DefineFileOptions,
+) {
+  return (
+    define[defineName] as (
+      content: object,
+      options: DefineFileOptions,
+    ) => string | false
+  )(content, options);
+}
+
+/**
+ * Split an identifier into its namespace and name, eg. `wiki:ghost`.
+ */
+function parseIdentifier(id: string) {
+  const [namespace, name, ...rest] = id.split(":");
+  if (!namespace || !name || rest.length) {
+    throw new Error(`'${id}' must be in 'namespace:name' format`);
+  }
+
+  return { namespace, name };
+}
+
+function setDisplayName(
+  lang: Lang,
+  key: string,
+  displayName: ContentDisplayName | undefined,
+) {
+  if (displayName === undefined) return;
+
+  lang.set(
+    key,
+    typeof displayName === "string" ? { en_US: displayName } : displayName,
+  );
+}
+
+/**
+ * Get the texture of each face of a block. `side` is used for the faces that
+ * are not set.
+ */
+function getBlockFaceTextures(texture: BlockFaceTextures) {
+  if (typeof texture === "string") return { "*": texture };
+
+  const defaultTexture =
+    texture.side ??
+    BLOCK_FACES.map((face) => texture[face]).find((path) => path);
+  if (!defaultTexture) throw new Error("A block texture must be set");
+
+  const faceTextures: { [face: string]: string } = { "*": defaultTexture };
+  for (const face of BLOCK_FACES) {
+    const path = texture[face];
+    if (path && path !== defaultTexture) faceTextures[face] = path;
+  }
+
+  return faceTextures;
+}
+
+export function createContent(define: Define, lang: Lang): Content {
+  return {
+    entity(o) {
+      const { name } = parseIdentifier(o.id);
+      const { description, components, ...behavior } = o.behavior ?? {};
+
+      let lootTablePath: string | undefined;
+      if (o.loot) {
+        lootTablePath = `loot_tables/entities/${name}.json`;
+        defineJson(define, "lootTable", o.loot, { name: `entities/${name}` });
+      }
+
+      defineJson(
+        define,
+        "entity",
+        {
+          format_version: o.formatVersion ?? DEFAULT_FORMAT_VERSION,
+          "minecraft:entity": {
+            ...behavior,
+            description: {
+              is_spawnable: !!o.spawnEgg,
+              is_summonable: true,
+              ...description,
+              identifier: o.id,
+            },
+            components: {
+              ...(lootTablePath
+                ? { "minecraft:loot": { table: lootTablePath } }
+                : {}),
+              ...components,
+            },
+          },
+        },
+        { name },
+      );
+
+      if (o.geometry && o.texture) {
+        const renderControllerName = `controller.render.${o.id.replace(
+          ":",
+          ".",
+        )}`;
+
+        defineJson(
+          define,
+          "renderController",
+          {
+            format_version: "1.8.0",
+            render_controllers: {
+              [renderControllerName]: {
+                geometry: "Geometry.default",
+                materials: [{ "*": "Material.default" }],
+                textures: ["Texture.default"],
+              },
+            },
+          },
+          { name },
+        );
+
+        defineJson(
+          define,
+          "clientEntity",
+          {
+            format_version: "1.8.0",
+            "minecraft:client_entity": {
+              description: {
+                identifier: o.id,
+                materials: { default: o.material ?? "entity_alphatest" },
+                textures: { default: o.texture },
+                geometry: { default: o.geometry },
+                render_controllers: [renderControllerName],
+                ...(o.spawnEgg
+                  ? {
+                      spawn_egg: {
+                        base_color: o.spawnEgg.baseColor,
+                        overlay_color: o.spawnEgg.overlayColor,
+                      },
+                    }
+                  : {}),
+              },
+            },
+          },
+          { name },
+        );
+      } else if (o.geometry || o.texture) {
+        throw new Error(
+          `Entity '${o.id}' must have both a geometry and a texture to create its client entity`,
+        );
+      }
+
+      if (o.spawn) {
+        defineJson(
+          define,
+          "spawnRules",
+          {
+            format_version: "1.8.0",
+            "minecraft:spawn_rules": {
+              description: {
+                identifier: o.id,
+                population_control: o.spawn.populationControl ?? "animal",
+              },
+              conditions: o.spawn.conditions,
+            },
+          },
+          { name },
+        );
+      }
+
+      setDisplayName(lang, `entity.${o.id}.name`, o.displayName);
+      if (o.spawnEgg) {
+        setDisplayName(
+          lang,
+          `item.spawn_egg.entity.${o.id}.name`,
+          o.displayName &&
+            (typeof o.displayName === "string"
+              ? `Spawn ${o.displayName}`
+              : undefined),
+        );
+      }
+
+      return o.id;
+    },
+
+    item(o) {
+      const { name } = parseIdentifier(o.id);
+      const { description, components, ...behavior } = o.behavior ?? {};
+
+      if (o.texture) define.itemTexture({ [name]: { textures: o.texture } });
+
+      defineJson(
+        define,
+        "item",
+        {
+          format_version: o.formatVersion ?? DEFAULT_FORMAT_VERSION,
+          "minecraft:item": {
+            ...behavior,
+            description: {
+              ...(o.category
+                ? { menu_category: { category: o.category } }
+                : {}),
+              ...description,
+              identifier: o.id,
+            },
+            components: {
+              ...(o.texture ? { "minecraft:icon": { texture: name } } : {}),
+              ...(o.displayName
+                ? { "minecraft:display_name": { value: `item.${o.id}.name` } }
+                : {}),
+              ...components,
+            },
+          },
+        },
+        { name },
+      );
+
+      setDisplayName(lang, `item.${o.id}.name`, o.displayName);
+
+      return o.id;
+    },
+
+    block(o) {
+      const { name } = parseIdentifier(o.id);
+      const { description, components, ...behavior } = o.behavior ?? {};
+
+      let materialInstances: { [face: string]: object } | undefined;
+      if (o.texture) {
+        const faceTextures = getBlockFaceTextures(o.texture);
+
+        materialInstances = {};
+        for (const [face, path] of Object.entries(faceTextures)) {
+          const textureName = face === "*" ? name : `${name}_${face}`;
+          define.terrainTexture({ [textureName]: { textures: path } });
+          materialInstances[face] = { texture: textureName };
+        }
+      }
+
+      if (o.sound) define.clientBlock({ [o.id]: { sound: o.sound } });
+
+      defineJson(
+        define,
+        "block",
+        {
+          format_version: o.formatVersion ?? DEFAULT_FORMAT_VERSION,
+          "minecraft:block": {
+            ...behavior,
+            description: {
+              menu_category: { category: o.category ?? "construction" },
+              ...description,
+              identifier: o.id,
+            },
+            components: {
+              ...(o.geometry ? { "minecraft:geometry": o.geometry } : {}),
+              ...(materialInstances
+                ? { "minecraft:material_instances": materialInstances }
+                : {}),
+              ...components,
+            },
+          },
+        },
+        { name },
+      );
+
+      setDisplayName(lang, `tile.${o.id}.name`, o.displayName);
+
+      return o.id;
+    },
+  };
+}
@@ -0,0 +1,529 @@
+import * as path from "path";
+import * as fs from "fs";
+import { listFilesRecursive, writeFileRecursive } from "./utils.js";
+import {
+  compareVersions,
+  getVersionedNamespace,
+  parseFormatVersion,
+} from "./validate.js";
+
+type JsonSchema = boolean | JsonSchemaObject;
+
+interface JsonSchemaObject {
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  patternProperties?: { [pattern: string]: JsonSchema };
+  items?: JsonSchema | JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  examples?: unknown[];
+  default?: unknown;
+  deprecated?: boolean;
+}
+
+const HEADER = `//!
+// THIS FILE IS AUTOMATICALLY GENERATED. DO NOT MODIFY BY HAND!
+//!
+
+export type JsonType = string | number | boolean | JsonType[] | { [k: string]: JsonType };
+export type integer = number;
+`;
+
+const PACK_PREFIXES: { [dir: string]: string } = {
+  behavior: "b",
+  resource: "r",
+};
+
+const schemaFiles = new Map<string, JsonSchema>();
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Make the `$ref`s of a schema absolute, eg. `/schemas/general/vector.json#`,
+ * so schemas from different files can be merged.
+ */
+function resolveRefs(value: unknown, filePath: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((element) => resolveRefs(element, filePath));
+  }
+  if (!isObject(value)) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, propertyValue]) => {
+      if (key !== "$ref" || typeof propertyValue !== "string") {
+        return [key, resolveRefs(propertyValue, filePath)];
+      }
+
+      const [refPath, pointer = ""] = propertyValue.split("#");
+      const refFilePath = refPath
+        ? path.resolve(path.dirname(filePath), refPath)
+        : filePath;
+      return [key, `${refFilePath}#${pointer}`];
+    }),
+  );
+}
+
+function isSchemaObject(schema: JsonSchema): schema is JsonSchemaObject {
+  return typeof schema === "object";
+}
+
+function loadSchemaFile(filePath: string) {
+  let schema = schemaFiles.get(filePath);
+  if (schema === undefined) {
+    try {
+      schema = resolveRefs(
+        JSON.parse(fs.readFileSync(filePath, "utf8")),
+        filePath,
+      ) as JsonSchema;
+    } catch (error) {
+      throw new Error(`'${filePath}': ${(error as Error).message}`);
+    }
+    schemaFiles.set(filePath, schema);
+  }
+  return schema;
+}
+
+/**
+ * Get the schema an absolute `$ref` points to.
+ */
+function getRefSchema(ref: string) {
+  const [filePath, pointer] = ref.split("#");
+
+  let schema: unknown = loadSchemaFile(filePath);
+  for (const segment of pointer.split("/").filter((segment) => segment)) {
+    const key = decodeURIComponent(segment)
+      .replaceAll("~1", "/")
+      .replaceAll("~0", "~");
+    schema = isObject(schema) ? schema[key] : undefined;
+  }
+
+  if (schema === undefined) throw new Error(`'${ref}' does not exist`);
+  return schema as JsonSchema;
+}
+
+/**
+ * Merge the schemas of `allOf` into one object schema.
+ */
+function mergeAllOf(schema: JsonSchemaObject): JsonSchemaObject {
+  const { allOf = [], ...merged } = schema;
+
+  for (let part of allOf) {
+    while (isSchemaObject(part) && part.$ref) part = getRefSchema(part.$ref);
+    if (!isSchemaObject(part)) continue;
+
+    const resolvedPart = part.allOf ? mergeAllOf(part) : part;
+    merged.properties = {
+      ...resolvedPart.properties,
+      ...merged.properties,
+    };
+    merged.required = [
+      ...(merged.required ?? []),
+      ...(resolvedPart.required ?? []),
+    ];
+    merged.type ??= resolvedPart.type;
+    merged.description ??= resolvedPart.description;
+    merged.additionalProperties ??= resolvedPart.additionalProperties;
+    merged.patternProperties ??= resolvedPart.patternProperties;
+  }
+
+  return merged;
+}
+
+/**
+ * Convert text to a PascalCase identifier, eg. `minecraft:entity` is
+ * `MinecraftEntity`.
+ */
+function toTypeName(text: string) {
+  const name = text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word)
+    .map((word) => word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join("");
+
+  return /^[0-9]/.test(name) ? `_${name}` : name || "Unnamed";
+}
+
+function createDocComment(schema: JsonSchemaObject, indent: string) {
+  const lines: string[] = [];
+
+  if (schema.description) lines.push(...schema.description.split(/\r?\n/));
+  if (schema.default !== undefined) {
+    lines.push(`@default ${JSON.stringify(schema.default)}`);
+  }
+  for (const example of schema.examples ?? []) {
+    lines.push(
+      "@example",
+      "```json",
+      ...JSON.stringify(example, undefined, 2).split("\n"),
+      "```",
+    );
+  }
+  if (schema.deprecated) lines.push("@deprecated");
+
+  if (!lines.length) return "";
+
+  return `${indent}/**\n${lines
+    .map((line) => `${indent} * ${line.replaceAll("*/", "*\\/")}`.trimEnd())
+    .join("\n")}\n${indent} */\n`;
+}
+
+interface NamespaceContext {
+  declarations: string[];
+  names: Set<string>;
+  /**
+   * Absolute `$ref`s to the name of their type.
+   */
+  refNames: Map<string, string>;
+}
+
+function reserveName(ctx: NamespaceContext, baseName: string) {
+  let name = baseName;
+  for (let i = 2; ctx.names.has(name); i++) name = `${baseName}${i}`;
+  ctx.names.add(name);
+  return name;
+}
+
+function declareType(
+  ctx: NamespaceContext,
+  name: string,
+  schema: JsonSchemaObject,
+  type: string,
+) {
+  ctx.declarations.push(
+    `${createDocComment(schema, "  ")}  export type ${name} = ${type};`,
+  );
+}
+
+function generateRefType(ctx: NamespaceContext, ref: string) {
+  const existingName = ctx.refNames.get(ref);
+  if (existingName) return existingName;
+
+  const schema = getRefSchema(ref);
+  const [filePath, pointer] = ref.split("#");
+  const name = reserveName(
+    ctx,
+    toTypeName(
+      (isSchemaObject(schema) && schema.title) ||
+        pointer.split("/").pop() ||
+        path.basename(filePath, ".json"),
+    ),
+  );
+
+  // set before the type is generated so recursive refs use the name
+  ctx.refNames.set(ref, name);
+  declareType(
+    ctx,
+    name,
+    isSchemaObject(schema) ? schema : {},
+    generateType(ctx, schema, [name], "  ", true),
+  );
+
+  return name;
+}
+
+function generateObjectType(
+  ctx: NamespaceContext,
+  schema: JsonSchemaObject,
+  namePath: string[],
+  indent: string,
+) {
+  const memberIndent = `${indent}  `;
+  const members: string[] = [];
+  const required = new Set(schema.required ?? []);
+  const properties = Object.entries(schema.properties ?? {});
+
+  for (const [key, propertySchema] of properties) {
+    members.push(
+      `${
+        isSchemaObject(propertySchema)
+          ? createDocComment(propertySchema, memberIndent)
+          : ""
+      }${memberIndent}${JSON.stringify(key)}${
+        required.has(key) ? "" : "?"
+      }: ${generateType(
+        ctx,
+        propertySchema,
+        [...namePath, key],
+        memberIndent,
+      )};`,
+    );
+  }
+
+  const valueSchemas = [
+    ...Object.values(schema.patternProperties ?? {}),
+    ...(schema.additionalProperties !== undefined &&
+    schema.additionalProperties !== false
+      ? [schema.additionalProperties]
+      : []),
+  ];
+
+  // objects without any properties can have any properties
+  if (
+    !properties.length &&
+    !valueSchemas.length &&
+    schema.additionalProperties === undefined
+  ) {
+    valueSchemas.push(true);
+  }
+
+  if (valueSchemas.length) {
+    // the index signature has to allow the types of the properties too
+    const valueType = properties.length
+      ? "JsonType"
+      : valueSchemas
+          .map((valueSchema) =>
+            generateType(
+              ctx,
+              valueSchema,
+              [...namePath, "value"],
+              memberIndent,
+            ),
+          )
+          .join(" | ");
+    members.push(`${memberIndent}[k: string]: ${valueType};`);
+  }
+
+  return members.length ? `{\n${members.join("\n")}\n${indent}}` : "{}";
+}
+
+/**
+ * Generate the TypeScript type of a schema. Objects with properties are
+ * declared as named types, named by their title or by their property path.
+ *
+ * @param isDeclaration The type is already being declared with a name.
+ */
+function generateType(
+  ctx: NamespaceContext,
+  schema: JsonSchema,
+  namePath: string[],
+  indent: string,
+  isDeclaration = false,
+): string {
+  if (schema === true) return "JsonType";
+  if (schema === false) return "never";
+
+  if (schema.$ref) return generateRefType(ctx, schema.$ref);
+  if (schema.allOf) schema = mergeAllOf(schema);
+
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    return variants
+      .map((variant, i) =>
+        generateType(
+          ctx,
+          variant,
+          variants.length > 1 ? [...namePath, `option ${i + 1}`] : namePath,
+          indent,
+        ),
+      )
+      .join(" | ");
+  }
+
+  if (Array.isArray(schema.type)) {
+    const baseSchema = schema;
+    return schema.type
+      .map((type) =>
+        generateType(ctx, { ...baseSchema, type }, namePath, indent),
+      )
+      .join(" | ");
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+      return "number";
+    case "integer":
+      return "integer";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      if (Array.isArray(schema.items)) {
+        return `[${schema.items
+          .map((item, i) =>
+            generateType(ctx, item, [...namePath, `item ${i + 1}`], indent),
+          )
+          .join(", ")}]`;
+      }
+      if (schema.items === undefined) return "JsonType[]";
+
+      const itemType = generateType(
+        ctx,
+        schema.items,
+        [...namePath, "item"],
+        indent,
+      );
+      return `Array<${itemType}>`;
+    }
+  }
+
+  const isObjectSchema =
+    schema.type === "object" ||
+    !!schema.properties ||
+    !!schema.patternProperties ||
+    schema.additionalProperties !== undefined;
+  if (!isObjectSchema) return "JsonType";
+
+  if (isDeclaration || !schema.properties) {
+    return generateObjectType(ctx, schema, namePath, indent);
+  }
+
+  const name = reserveName(
+    ctx,
+    schema.title ? toTypeName(schema.title) : toTypeName(namePath.join(" ")),
+  );
+  declareType(ctx, name, schema, generateObjectType(ctx, schema, [name], "  "));
+  return name;
+}
+
+/**
+ * Find the main schema of each namespace. Each schema directly in a directory
+ * of `behavior` or `resource` is a namespace, eg.
+ * `behavior/entities/entities.json` is `b_entities`. Schemas of a format
+ * version are in a directory named after the version, eg.
+ * `behavior/blocks/1.20.60/blocks.json` is `b_blocks__1_20_60`.
+ */
+async function findNamespaceSchemas(schemasDir: string) {
+  const namespaces = new Map<string, string>();
+  const formatVersions = new Map<string, number[][]>();
+
+  for (const file of await listFilesRecursive(schemasDir)) {
+    const segments = file.split("/");
+    const prefix = PACK_PREFIXES[segments[0]];
+    if (!prefix || !file.endsWith(".json")) continue;
+
+    const baseNamespace = `${prefix}_${path.basename(file, ".json")}`;
+    let namespace = baseNamespace;
+
+    if (segments.length === 4) {
+      const version = parseFormatVersion(segments[2]);
+      if (!version) continue;
+
+      namespace = getVersionedNamespace(baseNamespace, version);
+      formatVersions.set(baseNamespace, [
+        ...(formatVersions.get(baseNamespace) ?? []),
+        version,
+      ]);
+    } else if (segments.length !== 3) {
+      continue;
+    }
+
+    if (namespaces.has(namespace)) {
+      throw new Error(
+        `'${namespaces.get(
+          namespace,
+        )}' and '${file}' are both the namespace '${namespace}'`,
+      );
+    }
+    namespaces.set(namespace, file);
+  }
+
+  for (const namespace of formatVersions.keys()) {
+    if (!namespaces.has(namespace)) {
+      throw new Error(
+        `The namespace '${namespace}' has schemas of format versions but no schema without a version`,
+      );
+    }
+  }
+
+  return { namespaces, formatVersions };
+}
+
+/**
+ * Create the interface that lists the `Main` type of each format version of
+ * the namespaces, from the newest version.
+ */
+function createFormatVersionsInterface(
+  formatVersions: Map<string, number[][]>,
+) {
+  const members = [...formatVersions]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([namespace, versions]) =>
+        `  ${namespace}: [\n${[...versions]
+          .sort((a, b) => compareVersions(b, a))
+          .map(
+            (version) =>
+              `    ["${version.join(".")}", ${getVersionedNamespace(
+                namespace,
+                version,
+              )}.Main],`,
+          )
+          .join("\n")}\n  ];`,
+    );
+
+  // 'script_globals_helper_types.d.ts' declares it when there are no versions
+  return members.length
+    ? `\nexport interface FormatVersions {\n${members.join("\n")}\n}\n`
+    : "";
+}
+
+/**
+ * Generate the definition types from a directory of Bedrock JSON schemas.
+ *
+ * @returns The names of the generated namespaces.
+ */
+export async function generateDefinitionTypes(
+  schemasDir: string,
+  outPath: string,
+) {
+  schemaFiles.clear();
+
+  const { namespaces, formatVersions } = await findNamespaceSchemas(schemasDir);
+  if (!namespaces.size) {
+    throw new Error(
+      `'${schemasDir}' does not contain any schemas in 'behavior/<dir>' or 'resource/<dir>'`,
+    );
+  }
+
+  let content = HEADER;
+
+  for (const [namespace, file] of [...namespaces].sort(([a], [b]) =>
+    a.localeCompare(b),
+  )) {
+    const ctx: NamespaceContext = {
+      declarations: [],
+      names: new Set(["Main", "JsonType", "integer"]),
+      refNames: new Map(),
+    };
+
+    const mainRef = `${path.resolve(schemasDir, file)}#`;
+    ctx.refNames.set(mainRef, "Main");
+
+    const mainSchema = getRefSchema(mainRef);
+    declareType(
+      ctx,
+      "Main",
+      isSchemaObject(mainSchema) ? mainSchema : {},
+      generateType(ctx, mainSchema, [], "  ", true),
+    );
+
+    content += `\nexport namespace ${namespace} {\n${ctx.declarations.join(
+      "\n\n",
+    )}\n}\n`;
+  }
+
+  content += createFormatVersionsInterface(formatVersions);
+
+  await writeFileRecursive(outPath, content);
+
+  return [...namespaces.keys()];
+}
@@ -0,0 +1,165 @@
+import { WebSocket, WebSocketServer } from "ws";
+import * as uuid from "uuid";
+
+export const DEFAULT_HOT_RELOAD_PORT = 19144;
+
+/**
+ * How long to wait for the response to a command before forgetting it.
+ */
+const COMMAND_RESPONSE_TIMEOUT = 10000;
+
+/**
+ * A message of the protocol Minecraft uses for `/connect`.
+ */
+interface ConnectMessage {
+  header: {
+    version: number;
+    requestId: string;
+    messagePurpose: string;
+    messageType?: string;
+  };
+  body: {
+    version?: number;
+    origin?: { type: string };
+    commandLine?: string;
+    statusCode?: number;
+    statusMessage?: string;
+  };
+}
+
+export type HotReloadLogType = "hotReload" | "error";
+
+interface PendingCommand {
+  command: string;
+  timeout: NodeJS.Timeout;
+}
+
+export interface HotReloadServer {
+  /**
+   * Run commands in every connected Minecraft client.
+   */
+  runCommands(commands: string[]): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a WebSocket server that Minecraft connects to with
+ * `/connect localhost:<port>`. Command responses from the clients are logged.
+ *
+ * @param responseTimeout Milliseconds after which a command without a response
+ * is logged as failed.
+ */
+export function startHotReloadServer(
+  port: number,
+  log: (type: HotReloadLogType, message: string) => void,
+  responseTimeout = COMMAND_RESPONSE_TIMEOUT,
+): Promise<HotReloadServer> {
+  const server = new WebSocketServer({ port });
+  // the commands of each client by request id
+  const pendingCommands = new Map<WebSocket, Map<string, PendingCommand>>();
+
+  function forgetPendingCommands(socket: WebSocket) {
+    for (const { timeout } of pendingCommands.get(socket)?.values() ?? []) {
+      clearTimeout(timeout);
+    }
+    pendingCommands.delete(socket);
+  }
+
+  server.on("connection", (socket) => {
+    log("hotReload", "Minecraft connected");
+    pendingCommands.set(socket, new Map());
+
+    socket.on("message", (data) => {
+      let message: ConnectMessage;
+      try {
+        // messages are buffers with the default binary type
+        message = JSON.parse((data as Buffer).toString()) as ConnectMessage;
+      } catch {
+        return;
+      }
+
+      const socketCommands = pendingCommands.get(socket);
+      const pending = socketCommands?.get(message.header.requestId);
+      if (!pending) return;
+      clearTimeout(pending.timeout);
+      socketCommands?.delete(message.header.requestId);
+
+      const { statusCode = 0, statusMessage = "" } = message.body;
+      if (message.header.messagePurpose === "error" || statusCode < 0) {
+        log("error", `'/${pending.command}' failed: ${statusMessage}`);
+      } else {
+        log("hotReload", `/${pending.command}: ${statusMessage}`);
+      }
+    });
+
+    socket.on("close", () => {
+      forgetPendingCommands(socket);
+      log("hotReload", "Minecraft disconnected");
+    });
+  });
+
+  function runCommands(commands: string[]) {
+    const clients = [...server.clients].filter(
+      (client) => client.readyState === WebSocket.OPEN,
+    );
+
+    if (!clients.length) {
+      log(
+        "hotReload",
+        `No Minecraft client is connected. Run '/connect localhost:${port}' in game`,
+      );
+      return;
+    }
+
+    for (const command of commands) {
+      for (const client of clients) {
+        const socketCommands = pendingCommands.get(client);
+        if (!socketCommands) continue;
+
+        const requestId = uuid.v4();
+        socketCommands.set(requestId, {
+          command,
+          timeout: setTimeout(() => {
+            socketCommands.delete(requestId);
+            log("error", `'/${command}' did not get a response`);
+          }, responseTimeout),
+        });
+
+        const message: ConnectMessage = {
+          header: {
+            version: 1,
+            requestId,
+            messagePurpose: "commandRequest",
+            messageType: "commandRequest",
+          },
+          body: {
+            version: 1,
+            origin: { type: "player" },
+            commandLine: command,
+          },
+        };
+        client.send(JSON.stringify(message));
+      }
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.once("listening", () => {
+      server.off("error", reject);
+      server.on("error", (error) => log("error", error.message));
+
+      resolve({
+        runCommands,
+        close: () => {
+          for (const socket of pendingCommands.keys()) {
+            forgetPendingCommands(socket);
+          }
+          return new Promise((resolve, reject) =>
+            server.close((error) => (error ? reject(error) : resolve())),
+          );
+        },
+      });
+    });
+  });
+}
@@ -0,0 +1,148 @@
+import * as path from "path";
+import * as fs from "fs";
+import { LangTranslations } from "../types/script_globals_helper_types.js";
+import { parseJsonc, stringifyJson } from "./assets.js";
+
+export interface LangFile {
+  /**
+   * The path relative to the pack directory.
+   */
+  path: string;
+  content: string;
+}
+
+const LANG_LINE_REGEX = /^([^=#\s][^=]*)=(.*)$/;
+
+function parseLangLineKey(line: string) {
+  return LANG_LINE_REGEX.exec(line)?.[1];
+}
+
+async function readFileIfExists(filePath: string) {
+  try {
+    return await fs.promises.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+    throw error;
+  }
+}
+
+/**
+ * Merge the entries defined with `_.lang.set` with the `.lang` files and
+ * `languages.json` of a pack. The hand-written lines are kept as they are and
+ * only the lines of redefined keys are replaced. The languages are the ones in
+ * `languages.json` and the `.lang` files, or the ones of the entries if the
+ * pack has none.
+ *
+ * @param packAssetsPath The path to the pack in the assets directory.
+ * @param entries Lang keys to their translations.
+ * @param optimize Whether to minify `languages.json` if it is updated.
+ */
+export async function createLangFiles(
+  packAssetsPath: string,
+  entries: Map<string, LangTranslations>,
+  optimize: boolean,
+) {
+  const textsPath = path.join(packAssetsPath, "texts");
+  const languagesJsonPath = path.join(textsPath, "languages.json");
+
+  const languagesJson = await readFileIfExists(languagesJsonPath);
+  const languages = languagesJson
+    ? (parseJsonc(languagesJson, languagesJsonPath) as string[])
+    : [];
+  const listedLanguageCount = languages.length;
+
+  const langFileNames = fs.existsSync(textsPath)
+    ? (await fs.promises.readdir(textsPath)).filter((fileName) =>
+        fileName.endsWith(".lang"),
+      )
+    : [];
+
+  for (const fileName of langFileNames) {
+    const language = fileName.slice(0, -".lang".length);
+    if (!languages.includes(language)) languages.push(language);
+  }
+
+  const warnings: string[] = [];
+
+  if (!languages.length) {
+    for (const translations of entries.values()) {
+      for (const language of Object.keys(translations)) {
+        if (!languages.includes(language)) languages.push(language);
+      }
+    }
+  } else {
+    for (const [key, translations] of entries) {
+      const otherLanguages = Object.keys(translations).filter(
+        (language) => !languages.includes(language),
+      );
+
+      if (otherLanguages.length) {
+        warnings.push(
+          `Lang key '${key}' is set in ${otherLanguages.join(
+            ", ",
+          )}, which is not a language of '${packAssetsPath}'. Add it to '${languagesJsonPath}'`,
+        );
+      }
+    }
+  }
+
+  if (!languages.length) return { files: [], warnings };
+
+  const files: LangFile[] = [];
+  const existingKeys = new Map<string, Set<string>>();
+
+  for (const language of languages) {
+    const existingContent =
+      (await readFileIfExists(path.join(textsPath, `${language}.lang`))) ?? "";
+    const languageKeys = new Set<string>();
+    existingKeys.set(language, languageKeys);
+
+    const newLines: string[] = [];
+    for (const [key, translations] of entries) {
+      const value = translations[language];
+      if (value !== undefined) newLines.push(`${key}=${value}`);
+    }
+
+    // the line endings of each line are kept
+    const lines = existingContent.split(/(?<=\n)/).filter((line) => {
+      const key = parseLangLineKey(line.replace(/\r?\n$/, ""));
+      if (!key) return true;
+
+      languageKeys.add(key);
+      return entries.get(key)?.[language] === undefined;
+    });
+
+    let content = lines.join("");
+    if (newLines.length) {
+      const lineEnding = existingContent.includes("\r\n") ? "\r\n" : "\n";
+      if (content && !content.endsWith("\n")) content += lineEnding;
+      content += newLines.map((line) => `${line}${lineEnding}`).join("");
+    }
+
+    files.push({ path: `texts/${language}.lang`, content });
+  }
+
+  for (const [key, translations] of entries) {
+    const missingLanguages = languages.filter(
+      (language) =>
+        translations[language] === undefined &&
+        !existingKeys.get(language)?.has(key),
+    );
+
+    if (missingLanguages.length) {
+      warnings.push(
+        `Lang key '${key}' is missing in ${missingLanguages.join(", ")}`,
+      );
+    }
+  }
+
+  files.push({
+    path: "texts/languages.json",
+    content:
+      languagesJson !== undefined && languages.length === listedLanguageCount
+        ? languagesJson
+        : stringifyJson(languages, optimize),
+  });
+
+  return { files, warnings };
+}
@@ -0,0 +1,241 @@
+import {
+  ExecuteBuilder,
+  FunctionBuilder,
+  Position,
+  SelectorArguments,
+} from "../types/script_globals_helper_types.js";
+
+function formatSelectorValue(value: unknown): string {
+  if (typeof value === "object" && value !== null) {
+    return `{${Object.entries(value)
+      .map(([key, entryValue]) => `${key}=${formatSelectorValue(entryValue)}`)
+      .join(",")}}`;
+  }
+  return typeof value === "string" && /[\s,=\]]/.test(value)
+    ? JSON.stringify(value)
+    : String(value);
+}
+
+/**
+ * Format a selector, eg. `@e[type=minecraft:cow,tag=a,tag=!b]`. Array values
+ * repeat the argument.
+ */
+export function formatSelector(variable: string, args: SelectorArguments = {}) {
+  const formattedArgs = Object.entries(args).flatMap(([key, value]) =>
+    value === undefined
+      ? []
+      : (Array.isArray(value) ? value : [value]).map(
+          (element) => `${key}=${formatSelectorValue(element)}`,
+        ),
+  );
+
+  return formattedArgs.length
+    ? `${variable}[${formattedArgs.join(",")}]`
+    : variable;
+}
+
+function formatCoordinates(prefix: "~" | "^", coordinates: number[]) {
+  return coordinates
+    .map((coordinate) => `${prefix}${coordinate || ""}`)
+    .join(" ");
+}
+
+function formatPosition(position: Position) {
+  return typeof position === "string" ? position : position.join(" ");
+}
+
+/**
+ * Join the arguments of a command, leaving out the trailing optional arguments
+ * that are not set.
+ */
+function joinCommand(...args: (string | number | boolean | undefined)[]) {
+  while (args.length && args[args.length - 1] === undefined) args.pop();
+
+  const missingIndex = args.indexOf(undefined);
+  if (missingIndex !== -1) {
+    throw new Error(
+      `'${args[0]}' is missing argument ${missingIndex} which is needed by the arguments after it`,
+    );
+  }
+
+  return args.join(" ");
+}
+
+function quoteText(text: string) {
+  return JSON.stringify(text);
+}
+
+function createExecuteBuilder() {
+  const subcommands: string[] = [];
+
+  const builder: ExecuteBuilder = {
+    as(target) {
+      subcommands.push(`as ${target}`);
+      return this;
+    },
+    at(target) {
+      subcommands.push(`at ${target}`);
+      return this;
+    },
+    positioned(position) {
+      subcommands.push(`positioned ${formatPosition(position)}`);
+      return this;
+    },
+    if(condition) {
+      subcommands.push(`if ${condition}`);
+      return this;
+    },
+    unless(condition) {
+      subcommands.push(`unless ${condition}`);
+      return this;
+    },
+  };
+
+  return { builder, subcommands };
+}
+
+function createFunctionBuilder(lines: string[]) {
+  const builder: FunctionBuilder = {
+    selector: formatSelector,
+    relative: (x = 0, y = 0, z = 0) => formatCoordinates("~", [x, y, z]),
+    local: (left = 0, up = 0, forward = 0) =>
+      formatCoordinates("^", [left, up, forward]),
+    command(command) {
+      if (/[\r\n]/.test(command)) {
+        throw new Error(`Command '${command}' cannot contain line breaks`);
+      }
+      lines.push(command.replace(/^\//, ""));
+      return this;
+    },
+    comment(text) {
+      lines.push(...text.split(/\r?\n/).map((line) => `# ${line}`));
+      return this;
+    },
+    say(message) {
+      return this.command(joinCommand("say", message));
+    },
+    tell(target, message) {
+      return this.command(joinCommand("tell", target, message));
+    },
+    give(target, item, amount, data) {
+      return this.command(joinCommand("give", target, item, amount, data));
+    },
+    clear(target, item, data, maxCount) {
+      return this.command(joinCommand("clear", target, item, data, maxCount));
+    },
+    teleport(target, destination) {
+      return this.command(
+        joinCommand(
+          "tp",
+          target,
+          Array.isArray(destination)
+            ? formatPosition(destination)
+            : destination,
+        ),
+      );
+    },
+    summon(entityType, position, nameTag) {
+      return this.command(
+        joinCommand(
+          "summon",
+          entityType,
+          position && formatPosition(position),
+          nameTag && quoteText(nameTag),
+        ),
+      );
+    },
+    kill(target) {
+      return this.command(joinCommand("kill", target));
+    },
+    effect(target, effect, seconds, amplifier, hideParticles) {
+      return this.command(
+        joinCommand(
+          "effect",
+          target,
+          effect,
+          seconds,
+          amplifier,
+          hideParticles,
+        ),
+      );
+    },
+    setblock(position, block, mode) {
+      return this.command(
+        joinCommand("setblock", formatPosition(position), block, mode),
+      );
+    },
+    fill(from, to, block, mode) {
+      return this.command(
+        joinCommand(
+          "fill",
+          formatPosition(from),
+          formatPosition(to),
+          block,
+          mode,
+        ),
+      );
+    },
+    tag(target, action, name) {
+      return this.command(joinCommand("tag", target, action, name));
+    },
+    score(target, objective, action, value) {
+      return this.command(
+        joinCommand("scoreboard players", action, target, objective, value),
+      );
+    },
+    title(target, type, text) {
+      return this.command(joinCommand("title", target, type, text));
+    },
+    playsound(sound, target, position, volume, pitch) {
+      return this.command(
+        joinCommand(
+          "playsound",
+          sound,
+          target,
+          position && formatPosition(position),
+          volume,
+          pitch,
+        ),
+      );
+    },
+    function(name) {
+      return this.command(joinCommand("function", name));
+    },
+    execute(subcommands, run) {
+      const execute = createExecuteBuilder();
+      subcommands(execute.builder);
+      if (!execute.subcommands.length) {
+        throw new Error("'execute' must have at least one subcommand");
+      }
+
+      const runLines: string[] = [];
+      run(createFunctionBuilder(runLines));
+
+      for (const line of runLines) {
+        if (line.startsWith("#")) continue;
+        this.command(`execute ${execute.subcommands.join(" ")} run ${line}`);
+      }
+      return this;
+    },
+  };
+
+  return builder;
+}
+
+/**
+ * Create the content of a `.mcfunction` file from commands or a builder.
+ */
+export function createFunctionContent(
+  commands: string[] | ((builder: FunctionBuilder) => void),
+) {
+  const lines: string[] = [];
+  const builder = createFunctionBuilder(lines);
+
+  if (typeof commands === "function") {
+    commands(builder);
+  } else {
+    for (const command of commands) builder.command(command);
+  }
+
+  return lines.join("\n");
+}
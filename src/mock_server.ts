@@ -0,0 +1,557 @@
+/**
+ * An in-memory stand-in for `@minecraft/server` that `hopper test` runs the
+ * scripts against. Only the commonly used parts of the API are mocked. The
+ * game is controlled by the tests through `testMock`.
+ */
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type RawMessage =
+  | string
+  | RawMessage[]
+  | { text?: string; translate?: string; rawtext?: RawMessage[] };
+
+interface EntityQueryOptions {
+  type?: string;
+  excludeTypes?: string[];
+  name?: string;
+  tags?: string[];
+  excludeTags?: string[];
+}
+
+function formatMessage(message: RawMessage): string {
+  if (typeof message === "string") return message;
+  if (Array.isArray(message)) return message.map(formatMessage).join("");
+
+  return (
+    (message.text ?? "") +
+    (message.translate ?? "") +
+    (message.rawtext ?? []).map(formatMessage).join("")
+  );
+}
+
+function normalizeIdentifier(id: string) {
+  return id.includes(":") ? id : `minecraft:${id}`;
+}
+
+export class EventSignal<T> {
+  private callbacks: ((event: T) => void)[] = [];
+
+  subscribe<C extends (event: T) => void>(callback: C) {
+    this.callbacks.push(callback);
+    return callback;
+  }
+
+  unsubscribe(callback: (event: T) => void) {
+    this.callbacks = this.callbacks.filter((c) => c !== callback);
+  }
+
+  /**
+   * Call the subscribed callbacks. Not part of the game API.
+   */
+  trigger(event: T) {
+    for (const callback of [...this.callbacks]) callback(event);
+    return event;
+  }
+}
+
+/**
+ * Events are created when they are first accessed, so every event of the game
+ * can be subscribed to.
+ */
+function createEvents() {
+  const signals = new Map<string, EventSignal<unknown>>();
+
+  return new Proxy({} as { [name: string]: EventSignal<unknown> }, {
+    get(_target, name) {
+      if (typeof name !== "string") return;
+
+      let signal = signals.get(name);
+      if (!signal) {
+        signal = new EventSignal();
+        signals.set(name, signal);
+      }
+      return signal;
+    },
+  });
+}
+
+class DynamicProperties {
+  private properties = new Map<string, unknown>();
+
+  getDynamicProperty(identifier: string) {
+    return this.properties.get(identifier);
+  }
+
+  setDynamicProperty(identifier: string, value?: unknown) {
+    if (value === undefined) this.properties.delete(identifier);
+    else this.properties.set(identifier, value);
+  }
+
+  getDynamicPropertyIds() {
+    return [...this.properties.keys()];
+  }
+
+  clearDynamicProperties() {
+    this.properties.clear();
+  }
+}
+
+interface CommandResult {
+  successCount: number;
+}
+
+export class Entity extends DynamicProperties {
+  readonly id: string;
+  readonly typeId: string;
+  nameTag = "";
+  location: Vector3;
+  dimension: Dimension;
+  private tags = new Set<string>();
+  private valid = true;
+
+  constructor(typeId: string, location: Vector3, dimension: Dimension) {
+    super();
+    this.id = String(state.nextEntityId++);
+    this.typeId = normalizeIdentifier(typeId);
+    this.location = { ...location };
+    this.dimension = dimension;
+  }
+
+  isValid() {
+    return this.valid;
+  }
+
+  remove() {
+    this.valid = false;
+    state.entities = state.entities.filter((entity) => entity !== this);
+  }
+
+  kill() {
+    if (!this.valid) return false;
+
+    this.remove();
+    world.afterEvents.entityDie.trigger({
+      deadEntity: this,
+      damageSource: { cause: "none" },
+    });
+    return true;
+  }
+
+  teleport(location: Vector3, options: { dimension?: Dimension } = {}) {
+    this.location = { ...location };
+    if (options.dimension) this.dimension = options.dimension;
+  }
+
+  addTag(tag: string) {
+    if (this.tags.has(tag)) return false;
+    this.tags.add(tag);
+    return true;
+  }
+
+  removeTag(tag: string) {
+    return this.tags.delete(tag);
+  }
+
+  hasTag(tag: string) {
+    return this.tags.has(tag);
+  }
+
+  getTags() {
+    return [...this.tags];
+  }
+
+  getComponent(): undefined {
+    return;
+  }
+
+  runCommand(command: string): CommandResult {
+    state.commands.push(command.replace(/^\//, ""));
+    return { successCount: 1 };
+  }
+
+  runCommandAsync(command: string) {
+    return Promise.resolve(this.runCommand(command));
+  }
+}
+
+export class Player extends Entity {
+  readonly name: string;
+  /**
+   * The messages the player received. Not part of the game API.
+   */
+  readonly messages: string[] = [];
+
+  constructor(name: string, location: Vector3, dimension: Dimension) {
+    super("minecraft:player", location, dimension);
+    this.name = name;
+    this.nameTag = name;
+  }
+
+  sendMessage(message: RawMessage) {
+    this.messages.push(formatMessage(message));
+  }
+}
+
+function matchesQuery(entity: Entity, options: EntityQueryOptions) {
+  return (
+    (!options.type || entity.typeId === normalizeIdentifier(options.type)) &&
+    !options.excludeTypes?.map(normalizeIdentifier).includes(entity.typeId) &&
+    (!options.name || entity.nameTag === options.name) &&
+    (options.tags ?? []).every((tag) => entity.hasTag(tag)) &&
+    !(options.excludeTags ?? []).some((tag) => entity.hasTag(tag))
+  );
+}
+
+export class Dimension {
+  constructor(readonly id: string) {}
+
+  spawnEntity(identifier: string, location: Vector3) {
+    const entity = new Entity(identifier, location, this);
+    state.entities.push(entity);
+    return entity;
+  }
+
+  getEntities(options: EntityQueryOptions = {}) {
+    return state.entities.filter(
+      (entity) => entity.dimension === this && matchesQuery(entity, options),
+    );
+  }
+
+  getPlayers(options: EntityQueryOptions = {}) {
+    return this.getEntities(options).filter(
+      (entity): entity is Player => entity instanceof Player,
+    );
+  }
+
+  runCommand(command: string): CommandResult {
+    state.commands.push(command.replace(/^\//, ""));
+    return { successCount: 1 };
+  }
+
+  runCommandAsync(command: string) {
+    return Promise.resolve(this.runCommand(command));
+  }
+}
+
+export enum ScoreboardIdentityType {
+  Entity = "Entity",
+  FakePlayer = "FakePlayer",
+  Player = "Player",
+}
+
+export class ScoreboardIdentity {
+  constructor(
+    readonly id: number,
+    readonly displayName: string,
+    readonly type: ScoreboardIdentityType,
+    private readonly entity?: Entity,
+  ) {}
+
+  getEntity() {
+    return this.entity?.isValid() ? this.entity : undefined;
+  }
+}
+
+type ScoreboardParticipant = Entity | ScoreboardIdentity | string;
+
+/**
+ * Every participant has one identity, like in the game.
+ */
+function getScoreboardIdentity(participant: ScoreboardParticipant) {
+  if (participant instanceof ScoreboardIdentity) return participant;
+
+  const key =
+    typeof participant === "string"
+      ? `fake:${participant}`
+      : `entity:${participant.id}`;
+
+  let identity = state.scoreboardIdentities.get(key);
+  if (!identity) {
+    identity =
+      typeof participant === "string"
+        ? new ScoreboardIdentity(
+            state.scoreboardIdentities.size + 1,
+            participant,
+            ScoreboardIdentityType.FakePlayer,
+          )
+        : new ScoreboardIdentity(
+            state.scoreboardIdentities.size + 1,
+            participant instanceof Player
+              ? participant.name
+              : participant.nameTag || participant.typeId,
+            participant instanceof Player
+              ? ScoreboardIdentityType.Player
+              : ScoreboardIdentityType.Entity,
+            participant,
+          );
+    state.scoreboardIdentities.set(key, identity);
+  }
+  return identity;
+}
+
+export class ScoreboardObjective {
+  private scores = new Map<ScoreboardIdentity, number>();
+
+  constructor(
+    readonly id: string,
+    readonly displayName: string,
+  ) {}
+
+  getScore(participant: ScoreboardParticipant) {
+    return this.scores.get(getScoreboardIdentity(participant));
+  }
+
+  setScore(participant: ScoreboardParticipant, score: number) {
+    this.scores.set(getScoreboardIdentity(participant), score);
+  }
+
+  addScore(participant: ScoreboardParticipant, scoreToAdd: number) {
+    const score = (this.getScore(participant) ?? 0) + scoreToAdd;
+    this.setScore(participant, score);
+    return score;
+  }
+
+  hasParticipant(participant: ScoreboardParticipant) {
+    return this.scores.has(getScoreboardIdentity(participant));
+  }
+
+  removeParticipant(participant: ScoreboardParticipant) {
+    return this.scores.delete(getScoreboardIdentity(participant));
+  }
+
+  getParticipants() {
+    return [...this.scores.keys()];
+  }
+
+  getScores() {
+    return [...this.scores].map(([participant, score]) => ({
+      participant,
+      score,
+    }));
+  }
+}
+
+export class Scoreboard {
+  addObjective(objectiveId: string, displayName = objectiveId) {
+    if (state.objectives.has(objectiveId)) {
+      throw new Error(`Objective '${objectiveId}' already exists`);
+    }
+
+    const objective = new ScoreboardObjective(objectiveId, displayName);
+    state.objectives.set(objectiveId, objective);
+    return objective;
+  }
+
+  getObjective(objectiveId: string) {
+    return state.objectives.get(objectiveId);
+  }
+
+  getObjectives() {
+    return [...state.objectives.values()];
+  }
+
+  removeObjective(objectiveId: ScoreboardObjective | string) {
+    return state.objectives.delete(
+      typeof objectiveId === "string" ? objectiveId : objectiveId.id,
+    );
+  }
+}
+
+const DIMENSION_IDS = [
+  "minecraft:overworld",
+  "minecraft:nether",
+  "minecraft:the_end",
+];
+
+export class World extends DynamicProperties {
+  afterEvents = createEvents();
+  beforeEvents = createEvents();
+  readonly scoreboard = new Scoreboard();
+  private dimensions = new Map(
+    DIMENSION_IDS.map((id) => [id, new Dimension(id)]),
+  );
+
+  getDimension(dimensionId: string) {
+    const dimension = this.dimensions.get(normalizeIdentifier(dimensionId));
+    if (!dimension) {
+      throw new Error(`Dimension '${dimensionId}' does not exist`);
+    }
+    return dimension;
+  }
+
+  getAllPlayers() {
+    return state.entities.filter(
+      (entity): entity is Player => entity instanceof Player,
+    );
+  }
+
+  getPlayers(options: EntityQueryOptions = {}) {
+    return this.getAllPlayers().filter((player) =>
+      matchesQuery(player, options),
+    );
+  }
+
+  getEntity(id: string) {
+    return state.entities.find((entity) => entity.id === id);
+  }
+
+  sendMessage(message: RawMessage) {
+    state.messages.push(formatMessage(message));
+    for (const player of this.getAllPlayers()) player.sendMessage(message);
+  }
+}
+
+interface ScheduledRun {
+  callback: () => void;
+  tick: number;
+  /**
+   * Runs again after this many ticks.
+   */
+  interval?: number;
+}
+
+export class System {
+  afterEvents = createEvents();
+  beforeEvents = createEvents();
+
+  get currentTick() {
+    return state.currentTick;
+  }
+
+  private schedule(run: ScheduledRun) {
+    const id = state.nextRunId++;
+    state.runs.set(id, run);
+    return id;
+  }
+
+  run(callback: () => void) {
+    return this.schedule({ callback, tick: state.currentTick + 1 });
+  }
+
+  runTimeout(callback: () => void, tickDelay = 1) {
+    return this.schedule({
+      callback,
+      tick: state.currentTick + Math.max(tickDelay, 1),
+    });
+  }
+
+  runInterval(callback: () => void, tickInterval = 1) {
+    const interval = Math.max(tickInterval, 1);
+    return this.schedule({
+      callback,
+      tick: state.currentTick + interval,
+      interval,
+    });
+  }
+
+  /**
+   * Runs a step of the generator each tick.
+   */
+  runJob(generator: Generator<void, void, void>) {
+    const id: number = this.runInterval(() => {
+      if (generator.next().done) this.clearRun(id);
+    });
+    return id;
+  }
+
+  clearRun(runId: number) {
+    state.runs.delete(runId);
+  }
+
+  clearJob(jobId: number) {
+    state.runs.delete(jobId);
+  }
+}
+
+function createState() {
+  return {
+    currentTick: 0,
+    nextRunId: 1,
+    runs: new Map<number, ScheduledRun>(),
+    nextEntityId: 1,
+    entities: [] as Entity[],
+    objectives: new Map<string, ScoreboardObjective>(),
+    scoreboardIdentities: new Map<string, ScoreboardIdentity>(),
+    messages: [] as string[],
+    commands: [] as string[],
+  };
+}
+
+let state = createState();
+
+export const world = new World();
+export const system = new System();
+
+/**
+ * Controls the mocked game from the tests. Exposed to them as `mock`.
+ */
+export const testMock = {
+  get currentTick() {
+    return state.currentTick;
+  },
+  get messages() {
+    return state.messages;
+  },
+  get commands() {
+    return state.commands;
+  },
+  /**
+   * Advance the game, running the scheduled callbacks that are due. Promises
+   * settle between ticks. The first error thrown by a callback is rethrown
+   * after its tick.
+   */
+  async runTicks(count = 1) {
+    for (let i = 0; i < count; i++) {
+      state.currentTick++;
+
+      let firstError: unknown;
+      for (const [id, run] of [...state.runs]) {
+        if (run.tick > state.currentTick || !state.runs.has(id)) continue;
+
+        if (run.interval) run.tick += run.interval;
+        else state.runs.delete(id);
+
+        try {
+          run.callback();
+        } catch (error) {
+          firstError ??= error;
+        }
+      }
+      if (firstError !== undefined) throw firstError;
+
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  },
+  spawnPlayer(
+    name: string,
+    location: Vector3 = { x: 0, y: 0, z: 0 },
+    dimensionId = "overworld",
+  ) {
+    const player = new Player(name, location, world.getDimension(dimensionId));
+    state.entities.push(player);
+    return player;
+  },
+  emit<T>(signal: EventSignal<T>, event: T) {
+    if (!(signal instanceof EventSignal)) {
+      throw new Error("'mock.emit' can only emit the events of the mock");
+    }
+    return signal.trigger(event);
+  },
+  /**
+   * Reset the game, including the subscribed events. Done before each test
+   * file.
+   */
+  reset() {
+    state = createState();
+    for (const target of [world, system]) {
+      target.afterEvents = createEvents();
+      target.beforeEvents = createEvents();
+    }
+    world.clearDynamicProperties();
+  },
+};
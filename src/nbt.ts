@@ -0,0 +1,122 @@
+const TAG_TYPES = {
+  byte: 1,
+  short: 2,
+  int: 3,
+  long: 4,
+  float: 5,
+  double: 6,
+  string: 8,
+  list: 9,
+  compound: 10,
+};
+
+export type NbtTag =
+  | { type: "byte" | "short" | "int" | "float" | "double"; value: number }
+  | { type: "long"; value: bigint }
+  | { type: "string"; value: string }
+  | {
+      type: "list";
+      /**
+       * The type of the elements, needed when the list is empty.
+       */
+      elementType: NbtTag["type"];
+      value: NbtTag[];
+    }
+  | { type: "compound"; value: { [name: string]: NbtTag } };
+
+export const nbt = {
+  byte: (value: number): NbtTag => ({ type: "byte", value }),
+  int: (value: number): NbtTag => ({ type: "int", value }),
+  long: (value: bigint): NbtTag => ({ type: "long", value }),
+  float: (value: number): NbtTag => ({ type: "float", value }),
+  string: (value: string): NbtTag => ({ type: "string", value }),
+  list: (elementType: NbtTag["type"], value: NbtTag[]): NbtTag => ({
+    type: "list",
+    elementType,
+    value,
+  }),
+  compound: (value: { [name: string]: NbtTag }): NbtTag => ({
+    type: "compound",
+    value,
+  }),
+};
+
+function encodeNumber(
+  length: number,
+  write: (buffer: Buffer) => unknown,
+): Buffer {
+  const buffer = Buffer.alloc(length);
+  write(buffer);
+  return buffer;
+}
+
+function encodeString(value: string) {
+  const bytes = Buffer.from(value);
+  if (bytes.length > 0xffff) {
+    throw new Error(`NBT string '${value.slice(0, 20)}...' is too long`);
+  }
+
+  return [encodeNumber(2, (b) => b.writeUInt16LE(bytes.length)), bytes];
+}
+
+function encodePayload(tag: NbtTag, chunks: Buffer[]) {
+  switch (tag.type) {
+    case "byte":
+      chunks.push(encodeNumber(1, (b) => b.writeInt8(tag.value)));
+      break;
+    case "short":
+      chunks.push(encodeNumber(2, (b) => b.writeInt16LE(tag.value)));
+      break;
+    case "int":
+      chunks.push(encodeNumber(4, (b) => b.writeInt32LE(tag.value)));
+      break;
+    case "long":
+      chunks.push(encodeNumber(8, (b) => b.writeBigInt64LE(tag.value)));
+      break;
+    case "float":
+      chunks.push(encodeNumber(4, (b) => b.writeFloatLE(tag.value)));
+      break;
+    case "double":
+      chunks.push(encodeNumber(8, (b) => b.writeDoubleLE(tag.value)));
+      break;
+    case "string":
+      chunks.push(...encodeString(tag.value));
+      break;
+    case "list":
+      chunks.push(
+        encodeNumber(1, (b) => b.writeInt8(TAG_TYPES[tag.elementType])),
+        encodeNumber(4, (b) => b.writeInt32LE(tag.value.length)),
+      );
+      for (const element of tag.value) {
+        if (element.type !== tag.elementType) {
+          throw new Error(
+            `NBT list of '${tag.elementType}' cannot contain a '${element.type}'`,
+          );
+        }
+        encodePayload(element, chunks);
+      }
+      break;
+    case "compound":
+      for (const [name, value] of Object.entries(tag.value)) {
+        encodeNamedTag(name, value, chunks);
+      }
+      chunks.push(Buffer.from([0]));
+      break;
+  }
+}
+
+function encodeNamedTag(name: string, tag: NbtTag, chunks: Buffer[]) {
+  chunks.push(Buffer.from([TAG_TYPES[tag.type]]), ...encodeString(name));
+  encodePayload(tag, chunks);
+}
+
+/**
+ * Encode a root compound as little-endian NBT, which is what Bedrock uses for
+ * files like `.mcstructure`.
+ */
+export function writeNbt(root: { [name: string]: NbtTag }, rootName = "") {
+  const chunks: Buffer[] = [];
+  encodeNamedTag(rootName, nbt.compound(root), chunks);
+
+  return Buffer.concat(chunks);
+}
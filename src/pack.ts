@@ -0,0 +1,76 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { build, BuildOptions } from "./build.js";
+import { createZip, ZipEntry } from "./zip.js";
+import { listFilesRecursive, writeFileRecursive } from "./utils.js";
+
+async function readPackEntries(packDir: string, prefix = "") {
+  const entries: ZipEntry[] = [];
+
+  for (const file of await listFilesRecursive(packDir)) {
+    entries.push({
+      path: prefix + file,
+      data: await fs.promises.readFile(path.join(packDir, file)),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Build a project and export it as a `.mcpack` for each pack and a `.mcaddon`
+ * containing all of the packs.
+ *
+ * @returns The paths of the written archives and the build warnings.
+ */
+export async function pack(
+  options: Omit<BuildOptions, "out" | "copyAssets">,
+  archiveDir: string,
+) {
+  const tempDir = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "hopper-pack-"),
+  );
+
+  try {
+    const { warnings } = await build({
+      ...options,
+      copyAssets: true,
+      out: { outPath: tempDir },
+      buildManifestPath: undefined,
+    });
+
+    const packs = [{ suffix: "BP", dir: path.join(tempDir, "BP") }];
+    if (options.includeRp) {
+      packs.push({ suffix: "RP", dir: path.join(tempDir, "RP") });
+    }
+
+    const archives: { path: string; entries: ZipEntry[] }[] = [];
+    const addonEntries: ZipEntry[] = [];
+
+    for (const { suffix, dir } of packs) {
+      const packName = `${options.name}_${suffix}`;
+
+      archives.push({
+        path: path.join(archiveDir, `${packName}.mcpack`),
+        entries: await readPackEntries(dir),
+      });
+      addonEntries.push(...(await readPackEntries(dir, `${packName}/`)));
+    }
+
+    archives.push({
+      path: path.join(archiveDir, `${options.name}.mcaddon`),
+      entries: addonEntries,
+    });
+
+    await Promise.all(
+      archives.map((archive) =>
+        writeFileRecursive(archive.path, createZip(archive.entries)),
+      ),
+    );
+
+    return { archivePaths: archives.map((archive) => archive.path), warnings };
+  } finally {
+    await fs.promises.rm(tempDir, { force: true, recursive: true });
+  }
+}
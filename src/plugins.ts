@@ -0,0 +1,31 @@
+import { HopperPlugin } from "../types/config_types.js";
+
+type PluginHookName =
+  | "extendCompileTimeGlobal"
+  | "transformFileDefinitions"
+  | "transformBundle"
+  | "afterWrite";
+
+/**
+ * Call a hook of each plugin that has it, in order. Errors thrown by a hook
+ * include the name of the plugin.
+ */
+export async function callPluginHooks<H extends PluginHookName>(
+  plugins: HopperPlugin[] | undefined,
+  hookName: H,
+  call: (plugin: HopperPlugin & Required<Pick<HopperPlugin, H>>) => unknown,
+) {
+  for (const plugin of plugins ?? []) {
+    if (!plugin[hookName]) continue;
+
+    try {
+      await call(plugin as HopperPlugin & Required<Pick<HopperPlugin, H>>);
+    } catch (error) {
+      throw new Error(
+        `Plugin '${plugin.name}' failed in '${hookName}': ${
+          (error as Error).message
+        }`,
+      );
+    }
+  }
+}
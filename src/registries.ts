@@ -0,0 +1,194 @@
+import * as path from "path";
+import * as fs from "fs";
+import { isObject, mergeStrict } from "./utils.js";
+import { parseJsonc, stringifyJson } from "./assets.js";
+
+export type RegistryEntries = { [key: string]: unknown };
+
+interface Registry {
+  /**
+   * The path of the file, starting with the pack.
+   */
+  path: string;
+  /**
+   * Get the entries from the contents of an existing file, or `undefined` if
+   * the file does not have the expected structure.
+   */
+  getEntries(json: unknown): RegistryEntries | undefined;
+  /**
+   * Create the contents of the file from the entries. `json` is the existing
+   * file if there is one, which `getEntries` accepted.
+   */
+  create(json: unknown, entries: RegistryEntries, projectName: string): unknown;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function createTextureAtlasRegistry(
+  fileName: string,
+  textureName: string,
+  extraHeader: object = {},
+): Registry {
+  return {
+    path: `RP/textures/${fileName}`,
+    getEntries: (json) => {
+      if (!isObject(json)) return undefined;
+      if (json.texture_data === undefined) return {};
+      return isObject(json.texture_data) ? json.texture_data : undefined;
+    },
+    create: (json, entries, projectName) => ({
+      resource_pack_name: projectName,
+      texture_name: textureName,
+      ...extraHeader,
+      ...(isObject(json) ? json : {}),
+      texture_data: entries,
+    }),
+  };
+}
+
+export const REGISTRIES = {
+  itemTexture: createTextureAtlasRegistry("item_texture.json", "atlas.items"),
+  terrainTexture: createTextureAtlasRegistry(
+    "terrain_texture.json",
+    "atlas.terrain",
+    { padding: 8, num_mip_levels: 4 },
+  ),
+  flipbookTexture: {
+    path: "RP/textures/flipbook_textures.json",
+    getEntries: (json) => {
+      if (!Array.isArray(json)) return undefined;
+
+      const entries: RegistryEntries = {};
+      for (const entry of json as unknown[]) {
+        if (!isObject(entry) || typeof entry.atlas_tile !== "string") {
+          return undefined;
+        }
+        entries[entry.atlas_tile] = entry;
+      }
+      return entries;
+    },
+    create: (_json, entries) => Object.values(entries),
+  },
+  clientBlock: {
+    path: "RP/blocks.json",
+    getEntries: (json) => {
+      if (!isObject(json)) return undefined;
+
+      const entries = { ...json };
+      delete entries.format_version;
+      return entries;
+    },
+    create: (json, entries) => ({
+      format_version: (isObject(json) && json.format_version) || [1, 1, 0],
+      ...entries,
+    }),
+  },
+  soundDefinition: {
+    path: "RP/sounds/sound_definitions.json",
+    // files without a format version have the definitions at the top level
+    getEntries: (json) => {
+      if (!isObject(json)) return undefined;
+      if (json.sound_definitions === undefined) return json;
+      return isObject(json.sound_definitions)
+        ? json.sound_definitions
+        : undefined;
+    },
+    create: (json, entries) =>
+      isObject(json) && !json.sound_definitions
+        ? entries
+        : {
+            format_version: (isObject(json) && json.format_version) || "1.14.0",
+            sound_definitions: entries,
+          },
+  },
+  tick: {
+    path: "BP/functions/tick.json",
+    // the functions are the keys so the same function is only added once
+    getEntries: (json) => {
+      if (!isObject(json)) return undefined;
+
+      const values = json.values ?? [];
+      return isStringArray(values)
+        ? Object.fromEntries(values.map((name) => [name, true]))
+        : undefined;
+    },
+    create: (json, entries) => ({
+      ...(isObject(json) ? json : {}),
+      values: Object.keys(entries),
+    }),
+  },
+} satisfies { [name: string]: Registry };
+
+export type RegistryName = keyof typeof REGISTRIES;
+
+export const REGISTRY_PATHS = Object.values(REGISTRIES).map(
+  (registry) => registry.path,
+);
+
+export interface RegistryFile {
+  /**
+   * The path of the file, starting with the pack.
+   */
+  path: string;
+  content: string | Buffer;
+}
+
+/**
+ * Merge the entries defined with `_.define` into the registry files in the
+ * assets directory. Registry files without defined entries are copied as is.
+ */
+export async function createRegistryFiles(
+  assetsPath: string,
+  definedEntries: Map<RegistryName, RegistryEntries>,
+  projectName: string,
+  optimize: boolean,
+) {
+  const files: RegistryFile[] = [];
+
+  for (const [name, registry] of Object.entries(REGISTRIES) as [
+    RegistryName,
+    Registry,
+  ][]) {
+    const assetPath = path.join(assetsPath, registry.path);
+    const existingContent = fs.existsSync(assetPath)
+      ? await fs.promises.readFile(assetPath)
+      : undefined;
+
+    const entries = definedEntries.get(name);
+    if (!entries) {
+      if (existingContent) {
+        files.push({ path: registry.path, content: existingContent });
+      }
+      continue;
+    }
+
+    const existingJson =
+      existingContent && parseJsonc(existingContent.toString(), assetPath);
+
+    let mergedEntries: RegistryEntries = {};
+    if (existingJson !== undefined) {
+      const existingEntries = registry.getEntries(existingJson);
+      if (!existingEntries) {
+        throw new Error(
+          `'${assetPath}' does not have the structure of '${registry.path}'`,
+        );
+      }
+      mergedEntries = structuredClone(existingEntries);
+    }
+    mergeStrict(mergedEntries, entries, `'${registry.path}'`);
+
+    files.push({
+      path: registry.path,
+      content: stringifyJson(
+        registry.create(existingJson, mergedEntries, projectName),
+        optimize,
+      ),
+    });
+  }
+
+  return files;
+}
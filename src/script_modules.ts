@@ -0,0 +1,328 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as childProcess from "child_process";
+import {
+  readJsonFile,
+  stringifyJsonFile,
+  writeFilesTogether,
+} from "./utils.js";
+import { getManifestModuleVersion } from "./version.js";
+import type { Plugin as EsbuildPlugin } from "esbuild";
+
+export const MINECRAFT_SCRIPT_MODULES = {
+  "@minecraft/server-gametest": { alias: "serverGametest" },
+  "@minecraft/server-ui": { alias: "serverUi" },
+  "@minecraft/server": { alias: "server" },
+  "@minecraft/server-editor": { alias: "serverEditor" },
+  "@minecraft/server-admin": { alias: "serverAdmin" },
+  "@minecraft/server-net": { alias: "serverNet" },
+};
+
+export type ScriptModuleName = keyof typeof MINECRAFT_SCRIPT_MODULES;
+
+interface ModuleDependency {
+  module_name: string;
+  "hopper:alias"?: string;
+  version: string;
+}
+
+interface ManifestJson {
+  dependencies?: (ModuleDependency | { uuid: string })[];
+}
+
+interface PackageJson {
+  dependencies?: { [name: string]: string };
+  devDependencies?: { [name: string]: string };
+}
+
+export interface ScriptModuleOptions {
+  assetsPath: string;
+  /**
+   * Path to the `package.json` of the project.
+   */
+  packageJsonPath: string;
+  /**
+   * Path to the `script_globals.d.ts` of the project that types `$`.
+   */
+  scriptGlobalsPath: string;
+}
+
+export interface ScriptModuleChange {
+  moduleName: string;
+  /**
+   * The npm version, eg. `1.8.0-beta.1.20.50-stable`. Not used when removing.
+   */
+  npmVersion?: string;
+}
+
+export interface ScriptModule {
+  moduleName: string;
+  /**
+   * The name of the module in `$`.
+   */
+  alias: string;
+}
+
+export function isScriptModuleName(
+  moduleName: string,
+): moduleName is ScriptModuleName {
+  return moduleName in MINECRAFT_SCRIPT_MODULES;
+}
+
+/**
+ * Get the versions of a script module from npm, from the newest version.
+ * Release candidates are not included.
+ *
+ * @returns `undefined` if npm is unavailable, eg. when offline.
+ */
+export function fetchModuleVersions(moduleName: string) {
+  return new Promise<string[] | undefined>((resolve) => {
+    childProcess.exec(
+      `npm view ${moduleName} versions --json`,
+      (error, stdout) => {
+        if (error) return resolve(undefined);
+
+        try {
+          resolve(
+            (JSON.parse(stdout) as string[])
+              .filter((v) => !v.includes("-rc"))
+              .reverse(),
+          );
+        } catch {
+          resolve(undefined);
+        }
+      },
+    );
+  });
+}
+
+/**
+ * Get the version of a script module installed in `node_modules`, which is
+ * used when npm is unavailable.
+ */
+export function readInstalledModuleVersion(moduleName: string, root = ".") {
+  try {
+    return (
+      JSON.parse(
+        fs.readFileSync(
+          path.join(root, "node_modules", moduleName, "package.json"),
+          "utf8",
+        ),
+      ) as { version: string }
+    ).version;
+  } catch {
+    return;
+  }
+}
+
+function createScriptGlobalsAliases(modules: ScriptModule[]) {
+  return `var $: {\n${modules
+    .map(
+      ({ moduleName, alias }) =>
+        `\t\t"${alias}": typeof import("${moduleName}")`,
+    )
+    .join("\n")}\n\t}`;
+}
+
+/**
+ * Create the `script_globals.d.ts` of a project, which types `$` and sets the
+ * target version of the definition types.
+ */
+export function createScriptGlobalsContent(
+  moduleNames: ScriptModuleName[],
+  targetVersion?: string,
+) {
+  return `declare global {\n\t${createScriptGlobalsAliases(
+    moduleNames.map((moduleName) => ({
+      moduleName,
+      alias: MINECRAFT_SCRIPT_MODULES[moduleName].alias,
+    })),
+  )}\n${
+    targetVersion
+      ? `\tinterface HopperTarget {\n\t\tversion: "${targetVersion}"\n\t}\n`
+      : ""
+  }}\nexport {};`;
+}
+
+/**
+ * Add, upgrade or remove script modules in the BP manifest, `package.json` and
+ * `script_globals.d.ts` together. Nothing is written if any of the changes are
+ * invalid.
+ *
+ * @returns The paths of the updated files.
+ */
+export async function updateScriptModules(
+  options: ScriptModuleOptions,
+  action: "add" | "upgrade" | "remove",
+  changes: ScriptModuleChange[],
+) {
+  const manifestPath = path.join(options.assetsPath, "BP/manifest.json");
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`'${manifestPath}' does not exist`);
+  }
+
+  const manifest = await readJsonFile<ManifestJson>(manifestPath);
+  const packageJson = await readJsonFile<PackageJson>(options.packageJsonPath);
+
+  const dependencies = (manifest.json.dependencies ??= []);
+
+  for (const { moduleName, npmVersion } of changes) {
+    const existing = dependencies.find(
+      (dependency): dependency is ModuleDependency =>
+        "module_name" in dependency && dependency.module_name === moduleName,
+    );
+
+    if (action === "add") {
+      if (existing) {
+        throw new Error(
+          `'${moduleName}' is already a dependency. Use 'upgrade-module' to change its version`,
+        );
+      }
+      if (!isScriptModuleName(moduleName)) {
+        throw new Error(
+          `'${moduleName}' is not a script module. Use one of ${Object.keys(
+            MINECRAFT_SCRIPT_MODULES,
+          )
+            .map((name) => `'${name}'`)
+            .join(", ")}`,
+        );
+      }
+    } else if (!existing) {
+      throw new Error(
+        `'${moduleName}' is not a dependency of '${manifestPath}'`,
+      );
+    } else if (action === "remove") {
+      dependencies.splice(dependencies.indexOf(existing), 1);
+      delete packageJson.json.dependencies?.[moduleName];
+      delete packageJson.json.devDependencies?.[moduleName];
+      continue;
+    }
+
+    if (npmVersion === undefined) {
+      throw new Error(`'${moduleName}' does not have a version to ${action}`);
+    }
+
+    const packageDependencies =
+      packageJson.json.dependencies?.[moduleName] !== undefined
+        ? packageJson.json.dependencies
+        : (packageJson.json.devDependencies ??= {});
+
+    const manifestVersion = getManifestModuleVersion(npmVersion);
+    if (existing) {
+      existing.version = manifestVersion;
+    } else {
+      dependencies.push({
+        module_name: moduleName,
+        "hopper:alias":
+          MINECRAFT_SCRIPT_MODULES[moduleName as ScriptModuleName].alias,
+        version: manifestVersion,
+      });
+    }
+    packageDependencies[moduleName] = npmVersion;
+  }
+
+  // '$' is typed by the modules in the manifest, the same way it is bundled
+  const aliases = createScriptGlobalsAliases(getScriptModules(manifest.json));
+
+  let scriptGlobals: string;
+  if (fs.existsSync(options.scriptGlobalsPath)) {
+    scriptGlobals = await fs.promises.readFile(
+      options.scriptGlobalsPath,
+      "utf8",
+    );
+    if (!/var \$: \{[^}]*\}/.test(scriptGlobals)) {
+      throw new Error(
+        `'${options.scriptGlobalsPath}' does not declare 'var $' so it cannot be updated`,
+      );
+    }
+    scriptGlobals = scriptGlobals.replace(/var \$: \{[^}]*\}/, () => aliases);
+  } else {
+    scriptGlobals = `declare global {\n\t${aliases}\n}\nexport {};`;
+  }
+
+  const files = [
+    {
+      path: manifestPath,
+      content: stringifyJsonFile(manifest),
+    },
+    {
+      path: options.packageJsonPath,
+      content: stringifyJsonFile(packageJson),
+    },
+    { path: options.scriptGlobalsPath, content: scriptGlobals },
+  ];
+
+  await fs.promises.mkdir(path.dirname(options.scriptGlobalsPath), {
+    recursive: true,
+  });
+  await writeFilesTogether(files);
+
+  return files.map((file) => file.path);
+}
+
+/**
+ * Read the script modules a BP manifest depends on, with their `$` aliases.
+ */
+export async function readManifestScriptModules(manifestPath: string) {
+  return getScriptModules(
+    JSON.parse(
+      await fs.promises.readFile(manifestPath, "utf8"),
+    ) as ManifestJson,
+  );
+}
+
+function getScriptModules(manifest: ManifestJson): ScriptModule[] {
+  return (manifest.dependencies ?? [])
+    .filter(
+      (dependency): dependency is ModuleDependency =>
+        "module_name" in dependency,
+    )
+    .map((dependency) => ({
+      moduleName: dependency.module_name,
+      alias: dependency["hopper:alias"] || dependency.module_name,
+    }));
+}
+
+/**
+ * Create an esbuild plugin that keeps imports of script modules as imports
+ * instead of bundling them. The modules must be dependencies of the BP
+ * manifest. Other `@minecraft` packages, eg. `@minecraft/math`, are bundled.
+ *
+ * @param specifiers Replaces the imports of script modules, eg. with mocks in
+ * tests.
+ */
+export function createScriptModulesEsbuildPlugin(
+  bpManifestPath: string,
+  specifiers: { [moduleName: string]: string } = {},
+): EsbuildPlugin {
+  return {
+    name: "hopper-script-modules",
+    setup(build) {
+      let moduleNames = new Set<string>();
+
+      // read on every build as the manifest can change while watching
+      build.onStart(async () => {
+        moduleNames = new Set(
+          (await readManifestScriptModules(bpManifestPath)).map(
+            (module) => module.moduleName,
+          ),
+        );
+      });
+
+      build.onResolve({ filter: /^@minecraft\// }, (args) => {
+        if (moduleNames.has(args.path)) {
+          return { path: specifiers[args.path] ?? args.path, external: true };
+        }
+        if (!isScriptModuleName(args.path)) return;
+
+        return {
+          errors: [
+            {
+              text: `'${args.path}' is not a dependency of '${bpManifestPath}'. Add it with 'hopper add-module ${args.path}'`,
+            },
+          ],
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import * as path from "path";
+import * as fs from "fs";
+import { originalPositionFor, TraceMap } from "@jridgewell/trace-mapping";
+import { codeFrameColumns } from "@babel/code-frame";
+
+export interface OriginalPosition {
+  /**
+   * The path of the source file relative to the current working directory.
+   */
+  source: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Create a function that maps a position in generated code back to the
+ * original source.
+ *
+ * @param mapDir The directory that the source paths in the map are relative
+ * to.
+ */
+export function createSourceMapper(map: string | object, mapDir: string) {
+  const traceMap = new TraceMap(map as string);
+
+  return (line: number, column: number): OriginalPosition | undefined => {
+    const position = originalPositionFor(traceMap, { line, column });
+    if (position.source === null) return;
+
+    return {
+      source: path.relative(
+        process.cwd(),
+        path.resolve(mapDir, position.source),
+      ),
+      line: position.line,
+      column: position.column,
+    };
+  };
+}
+
+export type SourceMapper = ReturnType<typeof createSourceMapper>;
+
+export function formatPosition(position: OriginalPosition) {
+  return `${position.source}:${position.line}:${position.column + 1}`;
+}
+
+/**
+ * Format a position with a code frame of the source below it. The code frame
+ * is left out if the source cannot be read.
+ */
+export function formatPositionWithCodeFrame(position: OriginalPosition) {
+  let source: string;
+  try {
+    source = fs.readFileSync(position.source, "utf8");
+  } catch {
+    return formatPosition(position);
+  }
+
+  return `${formatPosition(position)}\n\n${codeFrameColumns(source, {
+    start: { line: position.line, column: position.column + 1 },
+  })}`;
+}
@@ -0,0 +1,140 @@
+import { NbtTag, nbt, writeNbt } from "./nbt.js";
+import { Structure } from "../types/script_globals_helper_types.js";
+
+/**
+ * The block version of 1.18.10, which the game upgrades from when loading.
+ */
+const DEFAULT_BLOCK_VERSION = 17959425;
+
+function createStateTag(value: string | number | boolean) {
+  switch (typeof value) {
+    case "boolean":
+      return nbt.byte(value ? 1 : 0);
+    case "number":
+      return nbt.int(value);
+    default:
+      return nbt.string(value);
+  }
+}
+
+/**
+ * Get the palette index of each block, with x changing slowest and z fastest
+ * like in `.mcstructure` files.
+ */
+function getBlockIndices(structure: Structure) {
+  const [sizeX, sizeY, sizeZ] = structure.size;
+  const volume = sizeX * sizeY * sizeZ;
+
+  let indices: number[];
+  if (typeof structure.blocks === "function") {
+    indices = [];
+    for (let x = 0; x < sizeX; x++) {
+      for (let y = 0; y < sizeY; y++) {
+        for (let z = 0; z < sizeZ; z++) {
+          indices.push(structure.blocks(x, y, z));
+        }
+      }
+    }
+  } else {
+    if (structure.blocks.length !== volume) {
+      throw new Error(
+        `Structure has ${structure.blocks.length} blocks but its size needs ${volume}`,
+      );
+    }
+    indices = structure.blocks;
+  }
+
+  for (const index of indices) {
+    if (
+      !Number.isInteger(index) ||
+      index < -1 ||
+      index >= structure.palette.length
+    ) {
+      throw new Error(
+        `Structure block ${index} is not a palette index or -1 (the palette has ${structure.palette.length} blocks)`,
+      );
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Encode a structure as a `.mcstructure` file.
+ */
+export function createStructureContent(structure: Structure) {
+  const { size } = structure;
+  if (size.some((length) => !Number.isInteger(length) || length < 1)) {
+    throw new Error(
+      `Structure size [${size.join(", ")}] must be positive integers`,
+    );
+  }
+
+  const blockIndices = getBlockIndices(structure);
+
+  const palette = structure.palette.map((block) => {
+    const {
+      name,
+      states = {},
+      version = DEFAULT_BLOCK_VERSION,
+    } = typeof block === "string" ? { name: block } : block;
+
+    return nbt.compound({
+      name: nbt.string(name),
+      states: nbt.compound(
+        Object.fromEntries(
+          Object.entries(states).map(([state, value]) => [
+            state,
+            createStateTag(value),
+          ]),
+        ),
+      ),
+      version: nbt.int(version),
+    });
+  });
+
+  const entities = (structure.entities ?? []).map((entity, i) =>
+    nbt.compound({
+      identifier: nbt.string(entity.identifier),
+      definitions: nbt.list("string", [nbt.string(`+${entity.identifier}`)]),
+      Pos: nbt.list(
+        "float",
+        entity.position.map((coordinate) => nbt.float(coordinate)),
+      ),
+      Rotation: nbt.list(
+        "float",
+        (entity.rotation ?? [0, 0]).map((angle) => nbt.float(angle)),
+      ),
+      // the game gives loaded entities new ids, they only need to be unique
+      UniqueID: nbt.long(-BigInt(i + 1)),
+    }),
+  );
+
+  const intList = (values: number[]) =>
+    nbt.list(
+      "int",
+      values.map((value) => nbt.int(value)),
+    );
+
+  const tags: { [name: string]: NbtTag } = {
+    format_version: nbt.int(1),
+    size: intList(size),
+    structure: nbt.compound({
+      // the second layer is for waterlogged blocks
+      block_indices: nbt.list("list", [
+        intList(blockIndices),
+        intList(blockIndices.map(() => -1)),
+      ]),
+      entities: nbt.list("compound", entities),
+      palette: nbt.compound({
+        default: nbt.compound({
+          block_palette: nbt.list("compound", palette),
+          block_position_data: nbt.compound({}),
+        }),
+      }),
+    }),
+    structure_world_origin: intList([0, 0, 0]),
+  };
+
+  return writeNbt(tags);
+}
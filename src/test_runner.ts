@@ -0,0 +1,184 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as url from "url";
+import * as nodeAssert from "assert";
+import { BuildOptions, bundleScript } from "./build.js";
+import { testMock } from "./mock_server.js";
+import { listFilesRecursive, writeFileRecursive } from "./utils.js";
+
+const MOCK_SERVER_URL = new URL("./mock_server.js", import.meta.url).href;
+
+const HOPPER_DIR = url.fileURLToPath(new URL(".", import.meta.url));
+
+export interface TestResult {
+  file: string;
+  /**
+   * `undefined` if the file failed to bundle or load.
+   */
+  name?: string;
+  error?: Error;
+  duration: number;
+}
+
+/**
+ * How long a test can take before it fails, so a test waiting for something
+ * that never happens, eg. ticks without `mock.runTicks`, does not hang.
+ */
+export const DEFAULT_TEST_TIMEOUT = 5000;
+
+interface Test {
+  name: string;
+  fn: () => unknown;
+}
+
+const assert = Object.assign(
+  (value: unknown, message?: string) => nodeAssert.ok(value, message),
+  {
+    equal: nodeAssert.strictEqual,
+    notEqual: nodeAssert.notStrictEqual,
+    deepEqual: nodeAssert.deepStrictEqual,
+    notDeepEqual: nodeAssert.notDeepStrictEqual,
+    match: nodeAssert.match,
+    throws: nodeAssert.throws,
+    rejects: nodeAssert.rejects,
+    fail: nodeAssert.fail,
+  },
+);
+
+/**
+ * Format the error of a failed test, without the stack frames of Node and
+ * Hopper.
+ */
+export function formatTestError(error: Error) {
+  return (error.stack ?? String(error))
+    .split("\n")
+    .filter(
+      (line) =>
+        !/^\s*at /.test(line) ||
+        (!line.includes("node:") && !line.includes(HOPPER_DIR)),
+    )
+    .map((line) => `    ${line.replace(/^\s*(?=at )/, "")}`)
+    .join("\n");
+}
+
+/**
+ * Find the `.test.ts` and `.test.js` files in a directory.
+ */
+export async function findTestFiles(dir: string) {
+  if (!fs.existsSync(dir)) return [];
+
+  return (await listFilesRecursive(dir))
+    .filter((file) => /\.test\.[jt]s$/.test(file))
+    .map((file) => path.join(dir, file));
+}
+
+/**
+ * Bundle and run test files one after another. The game is reset before each
+ * file, so the tests of a file share it.
+ *
+ * @param outDir Where the bundled test files are written to run them.
+ * @param onResult Called with the result of each test as it finishes.
+ * @param timeout Milliseconds after which a test fails.
+ */
+export async function runTests(
+  options: BuildOptions,
+  files: string[],
+  outDir: string,
+  onResult: (result: TestResult) => void,
+  timeout = DEFAULT_TEST_TIMEOUT,
+) {
+  // stacks of failed assertions point to the test source
+  process.setSourceMapsEnabled(true);
+
+  const globals = globalThis as Record<string, unknown>;
+  globals.assert = assert;
+  globals.mock = testMock;
+
+  const results: TestResult[] = [];
+  function addResult(result: TestResult) {
+    results.push(result);
+    onResult(result);
+  }
+
+  for (const [i, file] of files.entries()) {
+    const start = performance.now();
+    const tests: Test[] = [];
+    globals.test = (name: string, fn: () => unknown) => {
+      tests.push({ name, fn });
+    };
+
+    try {
+      const outPath = path.resolve(
+        outDir,
+        `${i}_${path.basename(file).replace(/\.[jt]s$/, "")}.mjs`,
+      );
+      await writeFileRecursive(
+        outPath,
+        await bundleScript(options, file, {
+          outPath,
+          scriptModuleSpecifiers: { "@minecraft/server": MOCK_SERVER_URL },
+          // the tests are only defined when the bundle is run
+          compileTimeGlobals: { test: () => undefined, assert, mock: testMock },
+        }),
+      );
+
+      testMock.reset();
+      await import(url.pathToFileURL(outPath).href);
+    } catch (error) {
+      const missingExport = /does not provide an export named '([^']+)'/.exec(
+        (error as Error).message,
+      )?.[1];
+
+      addResult({
+        file,
+        error:
+          missingExport && (error as Error).message.includes(MOCK_SERVER_URL)
+            ? new Error(
+                `'${missingExport}' of '@minecraft/server' is not mocked by 'hopper test'`,
+              )
+            : (error as Error),
+        duration: Math.round(performance.now() - start),
+      });
+      continue;
+    }
+
+    for (const test of tests) {
+      const testStart = performance.now();
+      let error: Error | undefined;
+      // the timer also keeps Node from exiting while a test waits for nothing
+      let timer: NodeJS.Timeout | undefined;
+
+      try {
+        await Promise.race([
+          test.fn(),
+          new Promise((_, reject) => {
+            timer = setTimeout(
+              () =>
+                reject(
+                  new Error(
+                    `Test timed out after ${timeout}ms, eg. waiting for ticks without 'mock.runTicks'`,
+                  ),
+                ),
+              timeout,
+            );
+          }),
+        ]);
+      } catch (e) {
+        error = e as Error;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      addResult({
+        file,
+        name: test.name,
+        error,
+        duration: Math.round(performance.now() - testStart),
+      });
+    }
+  }
+
+  delete globals.test;
+
+  return results;
+}
@@ -1,12 +1,27 @@
 import * as fs from "fs";
 import * as path from "path";
 
+/**
+ * Write a file, creating its directory. Binary data can be a `Uint8Array` from
+ * another realm, eg. created by the compile time code.
+ */
 export async function writeFileRecursive(
   filePath: string,
-  data: string | Buffer,
+  data: string | Uint8Array,
 ) {
   await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
-  return fs.promises.writeFile(filePath, data);
+  return fs.promises.writeFile(filePath, toStringOrBuffer(data));
+}
+
+export function toStringOrBuffer(data: string | Uint8Array) {
+  if (typeof data === "string") return data;
+  if (!ArrayBuffer.isView(data)) {
+    throw new Error(
+      `Expected a string or a Uint8Array but got ${String(data)}`,
+    );
+  }
+
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
 }
 
 export function splitAndConvertElementsToNumber(s: string, splitter: string) {
@@ -19,3 +34,170 @@ export function resolveFilePathEnvironmentVariables(filePath: string) {
     (original, matched: string) => process.env[matched] || "",
   );
 }
+
+/**
+ * List all files in a directory recursively. The returned paths are relative
+ * to `dir`, use '/' as the separator and are sorted.
+ */
+export async function listFilesRecursive(dir: string): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const dirent of await fs.promises.readdir(dir, {
+    withFileTypes: true,
+  })) {
+    if (dirent.isDirectory()) {
+      for (const file of await listFilesRecursive(
+        path.join(dir, dirent.name),
+      )) {
+        files.push(`${dirent.name}/${file}`);
+      }
+    } else {
+      files.push(dirent.name);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Read a JSON file and the indent, line ending and final newline it uses, so
+ * it can be written back in the same style with `stringifyJsonFile`.
+ */
+export async function readJsonFile<T>(filePath: string) {
+  const content = await fs.promises.readFile(filePath, "utf8");
+
+  try {
+    return {
+      json: JSON.parse(content) as T,
+      indent: /^[ \t]+/m.exec(content)?.[0] ?? 4,
+      newline: content.includes("\r\n") ? "\r\n" : "\n",
+      finalNewline: content.endsWith("\n"),
+    };
+  } catch (error) {
+    throw new Error(`'${filePath}': ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Stringify a JSON file read with `readJsonFile` in its original style.
+ */
+export function stringifyJsonFile(file: {
+  json: unknown;
+  indent: string | number;
+  newline: string;
+  finalNewline: boolean;
+}) {
+  const content = JSON.stringify(file.json, undefined, file.indent);
+  return (
+    (file.newline === "\n" ? content : content.replaceAll("\n", file.newline)) +
+    (file.finalNewline ? file.newline : "")
+  );
+}
+
+/**
+ * Write files together. Every file is written to a temporary file first so a
+ * failed write leaves all of them unchanged. The temporary files are then
+ * renamed one at a time, and if a rename fails the error names the files that
+ * were already updated and the temporary files of the others are kept.
+ */
+export async function writeFilesTogether(
+  files: { path: string; content: string }[],
+) {
+  try {
+    await Promise.all(
+      files.map((file) =>
+        fs.promises.writeFile(`${file.path}.hopper-tmp`, file.content),
+      ),
+    );
+  } catch (error) {
+    await Promise.all(
+      files.map((file) =>
+        fs.promises.rm(`${file.path}.hopper-tmp`, { force: true }),
+      ),
+    );
+    throw error;
+  }
+
+  for (const [i, file] of files.entries()) {
+    try {
+      await fs.promises.rename(`${file.path}.hopper-tmp`, file.path);
+    } catch (error) {
+      const updated = files.slice(0, i).map((file) => `'${file.path}'`);
+      throw new Error(
+        `'${file.path}' could not be updated: ${
+          (error as Error).message
+        }. Updated files: ${
+          updated.join(", ") || "none"
+        }. The new content of the others is in their '.hopper-tmp' files`,
+      );
+    }
+  }
+}
+
+export function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep merge `source` into `target`. Throws if both have a different value for
+ * the same key. `__proto__` and `constructor` keys are skipped so parsed JSON
+ * cannot change the prototype of `target`.
+ *
+ * @param label Describes what is being merged in the error message.
+ */
+export function mergeStrict(
+  target: { [key: string]: unknown },
+  source: { [key: string]: unknown },
+  label: string,
+  keyPath = "",
+) {
+  for (const [key, value] of Object.entries(source)) {
+    if (key === "__proto__" || key === "constructor") continue;
+
+    const valuePath = keyPath ? `${keyPath}.${key}` : key;
+    const existing = Object.hasOwn(target, key) ? target[key] : undefined;
+
+    if (existing === undefined) {
+      target[key] = value;
+    } else if (isObject(existing) && isObject(value)) {
+      mergeStrict(existing, value, label, valuePath);
+    } else if (JSON.stringify(existing) !== JSON.stringify(value)) {
+      throw new Error(
+        `${label} has conflicting values for '${valuePath}': ${JSON.stringify(
+          existing,
+        )} and ${JSON.stringify(value)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Convert a glob pattern to a regular expression. `**` matches any number of
+ * directories, `*` and `?` match within a path segment.
+ */
+export function globToRegExp(pattern: string) {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*" && pattern[i + 1] === "*") {
+      // '**/' also matches no directories
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,724 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as url from "url";
+import ts from "typescript";
+import { splitAndConvertElementsToNumber } from "./utils.js";
+
+/**
+ * The namespace in `minecraft_definition_types.d.ts` of each `_.define`
+ * function.
+ */
+export const DEFINE_NAMESPACES = {
+  serverAnimationController: "b_animation_controller",
+  serverAnimation: "b_animations",
+  biome: "b_biomes",
+  block: "b_blocks",
+  dialogue: "b_dialogue",
+  entity: "b_entities",
+  featureRules: "b_feature_rules",
+  feature: "b_features",
+  item: "b_items",
+  lootTable: "b_loot_tables",
+  recipe: "b_recipes",
+  spawnRules: "b_spawn_rules",
+  tradeTable: "b_trading",
+  clientAnimationController: "r_animation_controller",
+  clientAnimation: "r_actor_animation",
+  attachable: "r_attachables",
+  clientEntity: "r_entity",
+  particle: "r_particles",
+  renderController: "r_render_controllers",
+};
+
+export type DefineName = keyof typeof DEFINE_NAMESPACES;
+
+export interface ValidationError {
+  /**
+   * The JSON path of the invalid value, eg. `$["minecraft:entity"].components`.
+   */
+  jsonPath: string;
+  message: string;
+}
+
+type TypeScope = Map<string, ts.TypeNode>;
+
+interface DefinitionTypes {
+  global: TypeScope;
+  namespaces: Map<string, TypeScope>;
+  /**
+   * The format versions that have their own types for each namespace, from
+   * the newest version.
+   */
+  formatVersions: Map<string, number[][]>;
+}
+
+const VERSIONED_NAMESPACE_REGEX = /^(\w+?)__(\d+)_(\d+)_(\d+)$/;
+
+/**
+ * Parse a format version in 'x.x.x' format. Returns `undefined` if it is not in
+ * that format.
+ */
+export function parseFormatVersion(version: string) {
+  if (!/^\d+\.\d+\.\d+$/.test(version)) return;
+  return splitAndConvertElementsToNumber(version, ".");
+}
+
+export function compareVersions(a: number[], b: number[]) {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Get the name of the namespace of the types of a format version, eg.
+ * `b_blocks__1_20_60`.
+ */
+export function getVersionedNamespace(namespace: string, version: number[]) {
+  return `${namespace}__${version.join("_")}`;
+}
+
+const DEFINITION_TYPES_URL = new URL(
+  "../types/minecraft_definition_types.d.ts",
+  import.meta.url,
+);
+
+/**
+ * Hand-written types of format versions that the generated types do not have
+ * yet.
+ */
+const DEFINITION_TYPE_VERSIONS_URL = new URL(
+  "../types/minecraft_definition_type_versions.d.ts",
+  import.meta.url,
+);
+
+let definitionTypes: DefinitionTypes | undefined;
+
+function addTypeAliases(scope: TypeScope, statements: ts.NodeArray<ts.Node>) {
+  for (const statement of statements) {
+    if (ts.isTypeAliasDeclaration(statement)) {
+      scope.set(statement.name.text, statement.type);
+    }
+  }
+}
+
+function parseTypesFile(fileUrl: URL) {
+  return ts.createSourceFile(
+    path.basename(fileUrl.pathname),
+    fs.readFileSync(url.fileURLToPath(fileUrl), "utf8"),
+    ts.ScriptTarget.Latest,
+  );
+}
+
+/**
+ * Add the namespaces of a types file. Namespaces that were already added are
+ * kept, so the generated types replace the hand-written ones.
+ */
+function addNamespaces(types: DefinitionTypes, sourceFile: ts.SourceFile) {
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isModuleDeclaration(statement) ||
+      !statement.body ||
+      !ts.isModuleBlock(statement.body) ||
+      types.namespaces.has(statement.name.text)
+    )
+      continue;
+
+    const scope: TypeScope = new Map();
+    addTypeAliases(scope, statement.body.statements);
+    types.namespaces.set(statement.name.text, scope);
+
+    const versionMatch = VERSIONED_NAMESPACE_REGEX.exec(statement.name.text);
+    if (versionMatch) {
+      const [, namespace, ...version] = versionMatch;
+      types.formatVersions.set(namespace, [
+        ...(types.formatVersions.get(namespace) ?? []),
+        version.map(Number),
+      ]);
+    }
+  }
+}
+
+/**
+ * Parse the type aliases in `minecraft_definition_types.d.ts` and
+ * `minecraft_definition_type_versions.d.ts`. The types are only parsed, not
+ * type checked, and are interpreted as a schema.
+ */
+function loadDefinitionTypes() {
+  if (definitionTypes) return definitionTypes;
+
+  const sourceFile = parseTypesFile(DEFINITION_TYPES_URL);
+
+  definitionTypes = {
+    global: new Map(),
+    namespaces: new Map(),
+    formatVersions: new Map(),
+  };
+  addTypeAliases(definitionTypes.global, sourceFile.statements);
+  addNamespaces(definitionTypes, sourceFile);
+  addNamespaces(definitionTypes, parseTypesFile(DEFINITION_TYPE_VERSIONS_URL));
+
+  for (const versions of definitionTypes.formatVersions.values()) {
+    versions.sort((a, b) => compareVersions(b, a));
+  }
+
+  return definitionTypes;
+}
+
+function describeValue(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function getPropertyName(name: ts.PropertyName) {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+  )
+    return name.text;
+}
+
+function appendJsonPath(jsonPath: string, key: string | number) {
+  if (typeof key === "number") return `${jsonPath}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${jsonPath}.${key}`
+    : `${jsonPath}[${JSON.stringify(key)}]`;
+}
+
+interface ValidationContext {
+  types: DefinitionTypes;
+  scope: TypeScope;
+  errors: ValidationError[];
+}
+
+function addError(ctx: ValidationContext, jsonPath: string, message: string) {
+  ctx.errors.push({ jsonPath, message });
+}
+
+function getReferenceName(node: ts.TypeReferenceNode) {
+  return ts.isIdentifier(node.typeName)
+    ? node.typeName.text
+    : node.typeName.right.text;
+}
+
+interface ResolvedType {
+  type: ts.TypeNode;
+  /**
+   * The scope the type is in, which changes for references to other
+   * namespaces.
+   */
+  scope: TypeScope;
+}
+
+function resolveReference(
+  ctx: ValidationContext,
+  node: ts.TypeReferenceNode,
+): ResolvedType | undefined {
+  const name = getReferenceName(node);
+
+  // eg. 'mcDefs.b_items.Main' in the types of format versions
+  if (ts.isQualifiedName(node.typeName)) {
+    const { left } = node.typeName;
+    const namespaceScope = ctx.types.namespaces.get(
+      ts.isIdentifier(left) ? left.text : left.right.text,
+    );
+    const type = namespaceScope?.get(name);
+    if (namespaceScope && type) return { type, scope: namespaceScope };
+  }
+
+  const type = ctx.scope.get(name) ?? ctx.types.global.get(name);
+  return type && { type, scope: ctx.scope };
+}
+
+/**
+ * Follow references and parentheses to an object type.
+ */
+function resolveTypeLiteral(
+  ctx: ValidationContext,
+  resolved: ResolvedType | undefined,
+): { type: ts.TypeLiteralNode; scope: TypeScope } | undefined {
+  if (!resolved) return;
+
+  const { type, scope } = resolved;
+  const typeCtx = { ...ctx, scope };
+
+  if (ts.isTypeLiteralNode(type)) return { type, scope };
+  if (ts.isParenthesizedTypeNode(type)) {
+    return resolveTypeLiteral(ctx, { type: type.type, scope });
+  }
+  if (ts.isTypeReferenceNode(type)) {
+    return resolveTypeLiteral(ctx, resolveReference(typeCtx, type));
+  }
+  if (ts.isIndexedAccessTypeNode(type)) {
+    return resolveTypeLiteral(ctx, resolveIndexedAccess(typeCtx, type));
+  }
+}
+
+/**
+ * Resolve the type of a property, eg. `Main["minecraft:item"]`. Only string
+ * keys of object types are supported.
+ */
+function resolveIndexedAccess(
+  ctx: ValidationContext,
+  node: ts.IndexedAccessTypeNode,
+): ResolvedType | undefined {
+  if (
+    !ts.isLiteralTypeNode(node.indexType) ||
+    !ts.isStringLiteral(node.indexType.literal)
+  )
+    return;
+
+  const objectType = resolveTypeLiteral(ctx, {
+    type: node.objectType,
+    scope: ctx.scope,
+  });
+  if (!objectType) return;
+
+  const key = node.indexType.literal.text;
+  const property = objectType.type.members.find(
+    (member): member is ts.PropertySignature =>
+      ts.isPropertySignature(member) && getPropertyName(member.name) === key,
+  );
+  return property?.type && { type: property.type, scope: objectType.scope };
+}
+
+/**
+ * Validate a value in a new context to check it without reporting errors.
+ */
+function getErrors(
+  ctx: ValidationContext,
+  value: unknown,
+  node: ts.TypeNode,
+  jsonPath: string,
+) {
+  const errors: ValidationError[] = [];
+  validateValue({ ...ctx, errors }, value, node, jsonPath);
+  return errors;
+}
+
+/**
+ * Check if a value could be described by a type without checking nested
+ * values. Used to pick the union member to report errors for.
+ */
+function matchesShallow(
+  ctx: ValidationContext,
+  value: unknown,
+  node: ts.TypeNode,
+): boolean {
+  switch (node.kind) {
+    case ts.SyntaxKind.AnyKeyword:
+    case ts.SyntaxKind.UnknownKeyword:
+      return true;
+    case ts.SyntaxKind.StringKeyword:
+      return typeof value === "string";
+    case ts.SyntaxKind.NumberKeyword:
+      return typeof value === "number";
+    case ts.SyntaxKind.BooleanKeyword:
+      return typeof value === "boolean";
+    case ts.SyntaxKind.ArrayType:
+    case ts.SyntaxKind.TupleType:
+      return Array.isArray(value);
+    case ts.SyntaxKind.TypeLiteral:
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case ts.SyntaxKind.ParenthesizedType:
+      return matchesShallow(
+        ctx,
+        value,
+        (node as ts.ParenthesizedTypeNode).type,
+      );
+    case ts.SyntaxKind.UnionType:
+      return (node as ts.UnionTypeNode).types.some((type) =>
+        matchesShallow(ctx, value, type),
+      );
+    case ts.SyntaxKind.LiteralType:
+      return !getErrors(ctx, value, node, "$").length;
+    case ts.SyntaxKind.TypeReference: {
+      const reference = node as ts.TypeReferenceNode;
+      const name = getReferenceName(reference);
+      if (name === "Array") return Array.isArray(value);
+      if (name === "Record") {
+        return (
+          typeof value === "object" && value !== null && !Array.isArray(value)
+        );
+      }
+      const resolved = resolveReference(ctx, reference);
+      return (
+        !resolved ||
+        matchesShallow({ ...ctx, scope: resolved.scope }, value, resolved.type)
+      );
+    }
+    case ts.SyntaxKind.IndexedAccessType: {
+      const resolved = resolveIndexedAccess(
+        ctx,
+        node as ts.IndexedAccessTypeNode,
+      );
+      return (
+        !resolved ||
+        matchesShallow({ ...ctx, scope: resolved.scope }, value, resolved.type)
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+function validateValue(
+  ctx: ValidationContext,
+  value: unknown,
+  node: ts.TypeNode,
+  jsonPath: string,
+): void {
+  switch (node.kind) {
+    case ts.SyntaxKind.AnyKeyword:
+    case ts.SyntaxKind.UnknownKeyword:
+      return;
+    case ts.SyntaxKind.NeverKeyword:
+      return addError(ctx, jsonPath, "is not allowed");
+    case ts.SyntaxKind.StringKeyword:
+    case ts.SyntaxKind.NumberKeyword:
+    case ts.SyntaxKind.BooleanKeyword: {
+      const expected =
+        node.kind === ts.SyntaxKind.StringKeyword
+          ? "string"
+          : node.kind === ts.SyntaxKind.NumberKeyword
+            ? "number"
+            : "boolean";
+      if (typeof value !== expected) {
+        addError(
+          ctx,
+          jsonPath,
+          `expected a ${expected}, got ${describeValue(value)}`,
+        );
+      }
+      return;
+    }
+    case ts.SyntaxKind.LiteralType: {
+      const literal = (node as ts.LiteralTypeNode).literal;
+      const expected =
+        literal.kind === ts.SyntaxKind.NullKeyword
+          ? null
+          : literal.kind === ts.SyntaxKind.TrueKeyword
+            ? true
+            : literal.kind === ts.SyntaxKind.FalseKeyword
+              ? false
+              : ts.isNumericLiteral(literal)
+                ? Number(literal.text)
+                : ts.isPrefixUnaryExpression(literal)
+                  ? -Number((literal.operand as ts.NumericLiteral).text)
+                  : (literal as ts.StringLiteral).text;
+      if (value !== expected) {
+        addError(
+          ctx,
+          jsonPath,
+          `expected ${JSON.stringify(expected)}, got ${describeValue(value)}`,
+        );
+      }
+      return;
+    }
+    case ts.SyntaxKind.ParenthesizedType:
+      return validateValue(
+        ctx,
+        value,
+        (node as ts.ParenthesizedTypeNode).type,
+        jsonPath,
+      );
+    case ts.SyntaxKind.ArrayType:
+      return validateArray(
+        ctx,
+        value,
+        (node as ts.ArrayTypeNode).elementType,
+        jsonPath,
+      );
+    case ts.SyntaxKind.TupleType:
+      return validateTuple(ctx, value, node as ts.TupleTypeNode, jsonPath);
+    case ts.SyntaxKind.TypeLiteral:
+      return validateObject(
+        ctx,
+        value,
+        (node as ts.TypeLiteralNode).members,
+        jsonPath,
+      );
+    case ts.SyntaxKind.UnionType:
+      return validateUnion(ctx, value, node as ts.UnionTypeNode, jsonPath);
+    case ts.SyntaxKind.IntersectionType:
+      for (const type of (node as ts.IntersectionTypeNode).types) {
+        validateValue(ctx, value, type, jsonPath);
+      }
+      return;
+    case ts.SyntaxKind.TypeReference:
+      return validateReference(
+        ctx,
+        value,
+        node as ts.TypeReferenceNode,
+        jsonPath,
+      );
+    case ts.SyntaxKind.IndexedAccessType: {
+      const resolved = resolveIndexedAccess(
+        ctx,
+        node as ts.IndexedAccessTypeNode,
+      );
+      // unknown types are not validated
+      if (resolved) {
+        validateValue(
+          { ...ctx, scope: resolved.scope },
+          value,
+          resolved.type,
+          jsonPath,
+        );
+      }
+      return;
+    }
+  }
+}
+
+function validateReference(
+  ctx: ValidationContext,
+  value: unknown,
+  node: ts.TypeReferenceNode,
+  jsonPath: string,
+) {
+  const name = getReferenceName(node);
+  const typeArguments = node.typeArguments ?? [];
+
+  if (name === "Array" && typeArguments.length === 1) {
+    return validateArray(ctx, value, typeArguments[0], jsonPath);
+  }
+
+  if (name === "Record" && typeArguments.length === 2) {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return addError(
+        ctx,
+        jsonPath,
+        `expected an object, got ${describeValue(value)}`,
+      );
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      validateValue(
+        ctx,
+        propertyValue,
+        typeArguments[1],
+        appendJsonPath(jsonPath, key),
+      );
+    }
+    return;
+  }
+
+  const resolved = resolveReference(ctx, node);
+  // unknown types are not validated
+  if (resolved) {
+    validateValue(
+      { ...ctx, scope: resolved.scope },
+      value,
+      resolved.type,
+      jsonPath,
+    );
+  }
+}
+
+function validateArray(
+  ctx: ValidationContext,
+  value: unknown,
+  elementType: ts.TypeNode,
+  jsonPath: string,
+) {
+  if (!Array.isArray(value)) {
+    return addError(
+      ctx,
+      jsonPath,
+      `expected an array, got ${describeValue(value)}`,
+    );
+  }
+
+  for (const [i, element] of value.entries()) {
+    validateValue(ctx, element, elementType, appendJsonPath(jsonPath, i));
+  }
+}
+
+function validateTuple(
+  ctx: ValidationContext,
+  value: unknown,
+  node: ts.TupleTypeNode,
+  jsonPath: string,
+) {
+  if (!Array.isArray(value)) {
+    return addError(
+      ctx,
+      jsonPath,
+      `expected an array, got ${describeValue(value)}`,
+    );
+  }
+
+  const elements = node.elements;
+  const minLength = elements.filter(
+    (element) => !ts.isOptionalTypeNode(element) && !ts.isRestTypeNode(element),
+  ).length;
+  const hasRest = elements.some((element) => ts.isRestTypeNode(element));
+
+  if (
+    value.length < minLength ||
+    (!hasRest && value.length > elements.length)
+  ) {
+    return addError(
+      ctx,
+      jsonPath,
+      `expected an array with ${
+        minLength === elements.length || hasRest
+          ? `${hasRest ? "at least " : ""}${minLength}`
+          : `${minLength} to ${elements.length}`
+      } elements, got ${value.length}`,
+    );
+  }
+
+  for (const [i, element] of value.entries()) {
+    const elementNode = elements[Math.min(i, elements.length - 1)];
+    const elementType = ts.isOptionalTypeNode(elementNode)
+      ? elementNode.type
+      : ts.isRestTypeNode(elementNode)
+        ? (elementNode.type as ts.ArrayTypeNode).elementType
+        : ts.isNamedTupleMember(elementNode)
+          ? elementNode.type
+          : elementNode;
+    validateValue(ctx, element, elementType, appendJsonPath(jsonPath, i));
+  }
+}
+
+function validateObject(
+  ctx: ValidationContext,
+  value: unknown,
+  members: ts.NodeArray<ts.TypeElement>,
+  jsonPath: string,
+) {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return addError(
+      ctx,
+      jsonPath,
+      `expected an object, got ${describeValue(value)}`,
+    );
+  }
+
+  const properties = new Map<string, ts.PropertySignature>();
+  let indexType: ts.TypeNode | undefined;
+
+  for (const member of members) {
+    if (ts.isPropertySignature(member)) {
+      const name = getPropertyName(member.name);
+      if (name !== undefined) properties.set(name, member);
+    } else if (ts.isIndexSignatureDeclaration(member)) {
+      indexType = member.type;
+    }
+  }
+
+  for (const [name, property] of properties) {
+    if (!property.questionToken && !(name in value)) {
+      addError(ctx, jsonPath, `missing required property '${name}'`);
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertyPath = appendJsonPath(jsonPath, key);
+    const propertyType = properties.get(key)?.type ?? indexType;
+
+    if (!propertyType) {
+      addError(ctx, jsonPath, `unknown property '${key}'`);
+      continue;
+    }
+
+    validateValue(ctx, propertyValue, propertyType, propertyPath);
+  }
+}
+
+function validateUnion(
+  ctx: ValidationContext,
+  value: unknown,
+  node: ts.UnionTypeNode,
+  jsonPath: string,
+) {
+  const candidates = node.types.filter((type) =>
+    matchesShallow(ctx, value, type),
+  );
+
+  if (!candidates.length) {
+    return addError(
+      ctx,
+      jsonPath,
+      `${describeValue(value)} does not match any of the allowed types`,
+    );
+  }
+
+  // report the errors of the candidate that is the closest match
+  let closestErrors: ValidationError[] | undefined;
+
+  for (const candidate of candidates) {
+    const errors = getErrors(ctx, value, candidate, jsonPath);
+    if (!errors.length) return;
+
+    if (!closestErrors || errors.length < closestErrors.length) {
+      closestErrors = errors;
+    }
+  }
+
+  ctx.errors.push(...(closestErrors ?? []));
+}
+
+/**
+ * Get the namespace of the types of a format version. The types of a version
+ * are used up to the next version that has its own types. Versions older than
+ * all of them use the namespace without a version.
+ */
+function getFormatVersionNamespace(
+  types: DefinitionTypes,
+  namespace: string,
+  formatVersion: string | undefined,
+) {
+  const version = formatVersion && parseFormatVersion(formatVersion);
+  if (!version) return namespace;
+
+  const typesVersion = types.formatVersions
+    .get(namespace)
+    ?.find((typesVersion) => compareVersions(typesVersion, version) <= 0);
+
+  return typesVersion
+    ? getVersionedNamespace(namespace, typesVersion)
+    : namespace;
+}
+
+/**
+ * Validate the content of a file created by a `_.define` function against the
+ * definition types of its `format_version`.
+ *
+ * @param targetVersion The version to use if the content does not have a
+ * `format_version`.
+ */
+export function validateDefinition(
+  defineName: DefineName,
+  content: unknown,
+  targetVersion?: string,
+): ValidationError[] {
+  const types = loadDefinitionTypes();
+  const formatVersion =
+    typeof content === "object" &&
+    content !== null &&
+    "format_version" in content &&
+    typeof content.format_version === "string"
+      ? content.format_version
+      : targetVersion;
+  const scope = types.namespaces.get(
+    getFormatVersionNamespace(
+      types,
+      DEFINE_NAMESPACES[defineName],
+      formatVersion,
+    ),
+  );
+  const mainType = scope?.get("Main");
+  if (!scope || !mainType) return [];
+
+  const errors: ValidationError[] = [];
+  validateValue({ types, scope, errors }, content, mainType, "$");
+  return errors;
+}
@@ -0,0 +1,178 @@
+import * as path from "path";
+import * as fs from "fs";
+import {
+  readJsonFile,
+  splitAndConvertElementsToNumber,
+  stringifyJsonFile,
+  writeFilesTogether,
+} from "./utils.js";
+
+type PackVersion = [number, number, number];
+
+interface ManifestJson {
+  header: { uuid: string; version: PackVersion; min_engine_version?: number[] };
+  modules?: { version: PackVersion }[];
+  dependencies?: (
+    | { module_name: string; version: string }
+    | { uuid: string; version: PackVersion }
+  )[];
+}
+
+export interface VersionOptions {
+  assetsPath: string;
+  /**
+   * Path to the `package.json` of the project.
+   */
+  packageJsonPath: string;
+  /**
+   * `major`, `minor`, `patch` or an exact version in 'x.y.z' format.
+   */
+  version: string;
+  /**
+   * The new min engine version in 'x.y.z' format.
+   */
+  minEngineVersion?: string;
+  /**
+   * Script module names to their new versions. The versions can be npm
+   * versions, eg. `1.8.0-beta.1.20.50-stable`.
+   */
+  moduleVersions?: { [moduleName: string]: string };
+}
+
+const VERSION_REGEX = /^\d+\.\d+\.\d+$/;
+
+/**
+ * Get the version of a script module to use in a manifest from its npm
+ * version, eg. `1.8.0-beta.1.20.50-stable` is `1.8.0-beta`.
+ */
+export function getManifestModuleVersion(npmVersion: string) {
+  return npmVersion.includes("-beta")
+    ? npmVersion.split("-beta")[0] + "-beta"
+    : npmVersion;
+}
+
+function parseVersion(version: string, label: string) {
+  if (!VERSION_REGEX.test(version)) {
+    throw new Error(
+      `${label} '${version}' must be in 'x.x.x' format where 'x' is an integer`,
+    );
+  }
+
+  return splitAndConvertElementsToNumber(version, ".") as PackVersion;
+}
+
+function getNextVersion(current: PackVersion, version: string): PackVersion {
+  const [major, minor, patch] = current;
+
+  switch (version) {
+    case "major":
+      return [major + 1, 0, 0];
+    case "minor":
+      return [major, minor + 1, 0];
+    case "patch":
+      return [major, minor, patch + 1];
+    default:
+      return parseVersion(version, "Version");
+  }
+}
+
+/**
+ * Update the version of the packs, the dependencies between them and
+ * `package.json` together. Nothing is written if any of the files are invalid.
+ *
+ * @returns The new version and the paths of the updated files.
+ */
+export async function updateProjectVersion(options: VersionOptions) {
+  const manifestPaths = ["BP", "RP"]
+    .map((pack) => path.join(options.assetsPath, pack, "manifest.json"))
+    .filter((manifestPath) => fs.existsSync(manifestPath));
+
+  if (!manifestPaths.length) {
+    throw new Error(`'${options.assetsPath}' does not contain any manifests`);
+  }
+
+  const manifests = await Promise.all(
+    manifestPaths.map((manifestPath) =>
+      readJsonFile<ManifestJson>(manifestPath),
+    ),
+  );
+  const packUuids = manifests.map(({ json }) => json.header.uuid);
+
+  // the BP is the source of truth when the packs are out of sync
+  const newVersion = getNextVersion(
+    manifests[0].json.header.version,
+    options.version,
+  );
+  const minEngineVersion =
+    options.minEngineVersion &&
+    parseVersion(options.minEngineVersion, "Min engine version");
+
+  const unusedModules = new Set(Object.keys(options.moduleVersions ?? {}));
+
+  for (const { json } of manifests) {
+    json.header.version = newVersion;
+    if (minEngineVersion) json.header.min_engine_version = minEngineVersion;
+
+    for (const module of json.modules ?? []) module.version = newVersion;
+
+    for (const dependency of json.dependencies ?? []) {
+      if ("uuid" in dependency) {
+        if (packUuids.includes(dependency.uuid))
+          dependency.version = newVersion;
+        continue;
+      }
+
+      const npmVersion = options.moduleVersions?.[dependency.module_name];
+      if (!npmVersion) continue;
+
+      dependency.version = getManifestModuleVersion(npmVersion);
+      unusedModules.delete(dependency.module_name);
+    }
+  }
+
+  if (unusedModules.size) {
+    throw new Error(
+      `${[...unusedModules]
+        .map((moduleName) => `'${moduleName}'`)
+        .join(", ")} is not a dependency of any manifest`,
+    );
+  }
+
+  const packageJson = await readJsonFile<{
+    version?: string;
+    dependencies?: { [name: string]: string };
+    devDependencies?: { [name: string]: string };
+  }>(options.packageJsonPath);
+
+  packageJson.json.version = newVersion.join(".");
+
+  // keep the installed types in sync with the manifests
+  for (const [moduleName, npmVersion] of Object.entries(
+    options.moduleVersions ?? {},
+  )) {
+    for (const dependencies of [
+      packageJson.json.dependencies,
+      packageJson.json.devDependencies,
+    ]) {
+      if (dependencies?.[moduleName]) dependencies[moduleName] = npmVersion;
+    }
+  }
+
+  const files = [
+    ...manifests.map((manifest, i) => ({
+      path: manifestPaths[i],
+      content: stringifyJsonFile(manifest),
+    })),
+    {
+      path: options.packageJsonPath,
+      content: stringifyJsonFile(packageJson),
+    },
+  ];
+
+  await writeFilesTogether(files);
+
+  return {
+    version: newVersion.join("."),
+    filePaths: files.map((file) => file.path),
+  };
+}
@@ -0,0 +1,128 @@
+import * as path from "path";
+import * as fs from "fs";
+import { HopperProfile, HopperWorkspaceConfig } from "../types/config_types.js";
+import { BuildOptions, PackDependency } from "./build.js";
+import {
+  getBuildOptions,
+  isWorkspaceConfig,
+  loadConfig,
+  ResolvedProfile,
+  resolveProfile,
+} from "./config.js";
+
+export interface WorkspaceMember {
+  profile: ResolvedProfile;
+  buildOptions: BuildOptions;
+}
+
+async function readPackDependency(
+  manifestPath: string,
+): Promise<PackDependency | undefined> {
+  if (!fs.existsSync(manifestPath)) return;
+
+  const manifest = JSON.parse(
+    await fs.promises.readFile(manifestPath, "utf8"),
+  ) as { header: PackDependency };
+
+  return { uuid: manifest.header.uuid, version: manifest.header.version };
+}
+
+/**
+ * Resolve the build options of the members of a workspace. The manifests of
+ * a member depend on the packs of the members in its `dependsOn`.
+ *
+ * @param filter Names of the members to include. All members are included if
+ * this is not specified.
+ */
+export async function resolveWorkspaceMembers(
+  workspace: HopperWorkspaceConfig,
+  workspaceDir: string,
+  cliOptions: HopperProfile,
+  profileName: string | undefined,
+  copyAssets: boolean,
+  filter?: string[],
+): Promise<WorkspaceMember[]> {
+  const alias = Object.fromEntries(
+    Object.entries(workspace.alias ?? {}).map(([name, aliasPath]) => [
+      name,
+      path.resolve(workspaceDir, aliasPath),
+    ]),
+  );
+
+  const members = await Promise.all(
+    workspace.members.map(async (memberPath) => {
+      const root = path.join(workspaceDir, memberPath);
+      const config = await loadConfig(root);
+      if (!config || isWorkspaceConfig(config)) {
+        throw new Error(
+          `Workspace member '${root}' must have a project config`,
+        );
+      }
+
+      const profile = await resolveProfile(
+        undefined,
+        cliOptions,
+        profileName,
+        root,
+      );
+
+      return {
+        profile,
+        buildOptions: { ...getBuildOptions(profile, copyAssets), alias },
+        dependsOn: config.dependsOn ?? [],
+        bp: await readPackDependency(
+          path.join(profile.assets, "BP/manifest.json"),
+        ),
+        rp: profile.rp
+          ? await readPackDependency(
+              path.join(profile.assets, "RP/manifest.json"),
+            )
+          : undefined,
+      };
+    }),
+  );
+
+  for (const member of members) {
+    if (
+      members.filter((other) => other.profile.name === member.profile.name)
+        .length > 1
+    ) {
+      throw new Error(
+        `More than one workspace member is named '${member.profile.name}'`,
+      );
+    }
+
+    const packDependencies: { BP: PackDependency[]; RP: PackDependency[] } = {
+      BP: [],
+      RP: [],
+    };
+
+    for (const dependencyName of member.dependsOn) {
+      const dependency = members.find(
+        (other) => other.profile.name === dependencyName,
+      );
+      if (!dependency) {
+        throw new Error(
+          `'${member.profile.name}' depends on '${dependencyName}' which is not a workspace member`,
+        );
+      }
+
+      if (dependency.bp) packDependencies.BP.push(dependency.bp);
+      if (dependency.rp && member.profile.rp) {
+        packDependencies.RP.push(dependency.rp);
+      }
+    }
+
+    member.buildOptions.packDependencies = packDependencies;
+  }
+
+  for (const name of filter ?? []) {
+    if (!members.some((member) => member.profile.name === name)) {
+      throw new Error(`'${name}' is not a workspace member`);
+    }
+  }
+
+  return members
+    .filter((member) => !filter || filter.includes(member.profile.name))
+    .map(({ profile, buildOptions }) => ({ profile, buildOptions }));
+}
@@ -0,0 +1,16 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { parseJsonc } from "../dist/assets.js";
+
+test("parseJsonc reports the position of syntax errors", () => {
+  assert.throws(() => parseJsonc('{\n  "a": 1,\n  "b": }\n\n\n', "a.json"), {
+    message: "'a.json':3:8: Unexpected token '}'",
+  });
+  assert.throws(
+    () => parseJsonc('{\n  // comment\n  "a": [1, 2,]\n}', "a.json"),
+    { message: /^'a\.json':3:14: / },
+  );
+  assert.throws(() => parseJsonc('{\n  "a": nul\n}', "a.json"), {
+    message: /^'a\.json':2:11: /,
+  });
+});
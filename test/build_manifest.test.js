@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { recordBuildOutputs } from "../dist/build_manifest.js";
+
+test("outputs that are not written again are removed", async () => {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "manifest-"));
+  const manifestPath = path.join(dir, "build_manifest.json");
+  const outDir = path.join(dir, "BP");
+  // starts with '..' but is inside the out directory
+  const staleFile = path.join(outDir, "..data", "stale.json");
+  const keptFile = path.join(outDir, "kept.json");
+  const outsideFile = path.join(dir, "BP_other", "outside.json");
+
+  for (const file of [staleFile, keptFile, outsideFile]) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, "{}");
+  }
+
+  await recordBuildOutputs(
+    manifestPath,
+    [outDir],
+    ["generated"],
+    new Map([
+      [staleFile, "generated"],
+      [keptFile, "generated"],
+      [outsideFile, "generated"],
+    ]),
+  );
+  await recordBuildOutputs(
+    manifestPath,
+    [outDir],
+    ["generated"],
+    new Map([[keptFile, "generated"]]),
+  );
+
+  assert.equal(fs.existsSync(staleFile), false);
+  assert.equal(fs.existsSync(path.dirname(staleFile)), false);
+  assert.equal(fs.existsSync(keptFile), true);
+  assert.equal(fs.existsSync(outsideFile), true);
+  assert.deepStrictEqual(
+    JSON.parse(await fs.promises.readFile(manifestPath, "utf8")),
+    { files: { [keptFile]: "generated", [outsideFile]: "generated" } },
+  );
+});
@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { createContent } from "../dist/content.js";
+import { DEFINE_NAMESPACES, validateDefinition } from "../dist/validate.js";
+
+/**
+ * Run a builder and get the validation errors of the definitions it creates.
+ */
+function getBuilderErrors(build) {
+  const errors = [];
+  const define = new Proxy(
+    {},
+    {
+      get: (_, defineName) => (content) => {
+        if (defineName in DEFINE_NAMESPACES) {
+          for (const error of validateDefinition(defineName, content)) {
+            errors.push(
+              `_.define.${defineName} ${error.jsonPath}: ${error.message}`,
+            );
+          }
+        }
+        return "";
+      },
+    },
+  );
+
+  build(createContent(define, { set() {} }));
+  return errors;
+}
+
+test("_.content.entity creates valid definitions", () => {
+  const errors = getBuilderErrors((content) =>
+    content.entity({
+      id: "wiki:ghost",
+      geometry: "geometry.ghost",
+      texture: "textures/entity/ghost",
+      spawnEgg: { baseColor: "#ffffff", overlayColor: "#000000" },
+      displayName: "Ghost",
+      loot: { pools: [] },
+      spawn: { conditions: [] },
+    }),
+  );
+
+  assert.deepStrictEqual(errors, []);
+});
+
+test("_.content.item creates valid definitions", () => {
+  const errors = getBuilderErrors((content) =>
+    content.item({
+      id: "wiki:ruby",
+      texture: "textures/items/ruby",
+      category: "items",
+      displayName: "Ruby",
+    }),
+  );
+
+  assert.deepStrictEqual(errors, []);
+});
+
+test("_.content.block creates valid definitions", () => {
+  const errors = getBuilderErrors((content) =>
+    content.block({
+      id: "wiki:ruby_ore",
+      texture: {
+        side: "textures/blocks/ruby_ore",
+        up: "textures/blocks/ruby_ore_top",
+      },
+      geometry: "geometry.ore",
+      sound: "stone",
+      category: "nature",
+      displayName: "Ruby Ore",
+    }),
+  );
+
+  assert.deepStrictEqual(errors, []);
+});
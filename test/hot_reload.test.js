@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { WebSocket } from "ws";
+import { startHotReloadServer } from "../dist/hot_reload.js";
+
+const PORT = 19244;
+
+/**
+ * Wait until a condition is true, checking it every few milliseconds.
+ */
+async function waitFor(condition) {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > 2000) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+test("hot reload sends command requests and logs the responses", async () => {
+  const logs = [];
+  const server = await startHotReloadServer(
+    PORT,
+    (type, message) => logs.push([type, message]),
+    200,
+  );
+
+  // a client like Minecraft after '/connect'
+  const client = new WebSocket(`ws://localhost:${PORT}`);
+  const requests = [];
+  client.on("message", (data) => requests.push(JSON.parse(data.toString())));
+  await waitFor(() =>
+    logs.some(([, message]) => message === "Minecraft connected"),
+  );
+
+  server.runCommands(["reload", "say hi"]);
+  await waitFor(() => requests.length === 2);
+
+  for (const [i, commandLine] of ["reload", "say hi"].entries()) {
+    assert.equal(typeof requests[i].header.requestId, "string");
+    assert.deepStrictEqual(requests[i], {
+      header: {
+        version: 1,
+        requestId: requests[i].header.requestId,
+        messagePurpose: "commandRequest",
+        messageType: "commandRequest",
+      },
+      body: { version: 1, origin: { type: "player" }, commandLine },
+    });
+  }
+
+  client.send(
+    JSON.stringify({
+      header: {
+        version: 1,
+        requestId: requests[0].header.requestId,
+        messagePurpose: "commandResponse",
+      },
+      body: { statusCode: 0, statusMessage: "Reloaded" },
+    }),
+  );
+  client.send(
+    JSON.stringify({
+      header: {
+        version: 1,
+        requestId: requests[1].header.requestId,
+        messagePurpose: "error",
+      },
+      body: { statusCode: -2147483648, statusMessage: "Unknown command" },
+    }),
+  );
+  await waitFor(() => logs.length === 3);
+
+  // a command without a response is forgotten after the timeout
+  server.runCommands(["noop"]);
+  await waitFor(() => logs.length === 4);
+
+  client.close();
+  await waitFor(() => logs.length === 5);
+  await server.close();
+
+  assert.deepStrictEqual(logs, [
+    ["hotReload", "Minecraft connected"],
+    ["hotReload", "/reload: Reloaded"],
+    ["error", "'/say hi' failed: Unknown command"],
+    ["error", "'/noop' did not get a response"],
+    ["hotReload", "Minecraft disconnected"],
+  ]);
+});
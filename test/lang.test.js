@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createLangFiles } from "../dist/lang.js";
+
+/**
+ * Create a pack with the files in its `texts` directory.
+ */
+async function createPack(texts) {
+  const packPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), "lang-"));
+  await fs.promises.mkdir(path.join(packPath, "texts"));
+  for (const [fileName, content] of Object.entries(texts)) {
+    await fs.promises.writeFile(
+      path.join(packPath, "texts", fileName),
+      content,
+    );
+  }
+  return packPath;
+}
+
+function getContents(files) {
+  return Object.fromEntries(files.map((file) => [file.path, file.content]));
+}
+
+const LANGUAGES_JSON = '[\n  "en_US" // the only language\n]';
+const EN_US_LANG =
+  "## names\r\npack.name=Ruby Pack\r\nitem.wiki:ruby.name=Ruby";
+
+test("lang files without entries are kept as they are", async () => {
+  const packPath = await createPack({
+    "languages.json": LANGUAGES_JSON,
+    "en_US.lang": EN_US_LANG,
+  });
+
+  const { files, warnings } = await createLangFiles(packPath, new Map(), false);
+
+  assert.deepStrictEqual(getContents(files), {
+    "texts/en_US.lang": EN_US_LANG,
+    "texts/languages.json": LANGUAGES_JSON,
+  });
+  assert.deepStrictEqual(warnings, []);
+});
+
+test("lang entries replace and add lines", async () => {
+  const packPath = await createPack({
+    "languages.json": LANGUAGES_JSON,
+    "en_US.lang": EN_US_LANG,
+  });
+
+  const { files, warnings } = await createLangFiles(
+    packPath,
+    new Map([
+      ["item.wiki:ruby.name", { en_US: "Red Gem" }],
+      ["tile.wiki:ruby_ore.name", { en_US: "Ruby Ore", de_DE: "Rubinerz" }],
+    ]),
+    false,
+  );
+
+  assert.deepStrictEqual(getContents(files), {
+    "texts/en_US.lang":
+      "## names\r\npack.name=Ruby Pack\r\nitem.wiki:ruby.name=Red Gem\r\ntile.wiki:ruby_ore.name=Ruby Ore\r\n",
+    "texts/languages.json": LANGUAGES_JSON,
+  });
+  assert.deepStrictEqual(warnings, [
+    `Lang key 'tile.wiki:ruby_ore.name' is set in de_DE, which is not a language of '${packPath}'. Add it to '${path.join(
+      packPath,
+      "texts/languages.json",
+    )}'`,
+  ]);
+});
+
+test("lang files are created for a pack without languages", async () => {
+  const packPath = await createPack({});
+
+  const { files } = await createLangFiles(
+    packPath,
+    new Map([["item.wiki:ruby.name", { en_US: "Ruby", de_DE: "Rubin" }]]),
+    false,
+  );
+
+  assert.deepStrictEqual(getContents(files), {
+    "texts/en_US.lang": "item.wiki:ruby.name=Ruby\n",
+    "texts/de_DE.lang": "item.wiki:ruby.name=Rubin\n",
+    "texts/languages.json": '[\n    "en_US",\n    "de_DE"\n]',
+  });
+});
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createRegistryFiles } from "../dist/registries.js";
+
+async function createAssets(files) {
+  const assetsPath = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "registries-"),
+  );
+  for (const [filePath, content] of Object.entries(files)) {
+    await fs.promises.mkdir(path.dirname(path.join(assetsPath, filePath)), {
+      recursive: true,
+    });
+    await fs.promises.writeFile(path.join(assetsPath, filePath), content);
+  }
+  return assetsPath;
+}
+
+test("registry entries are merged into the existing file", async () => {
+  const assetsPath = await createAssets({
+    "RP/textures/item_texture.json": JSON.stringify({
+      texture_data: { ruby: { textures: "textures/items/ruby" } },
+    }),
+  });
+
+  const files = await createRegistryFiles(
+    assetsPath,
+    new Map([
+      [
+        "itemTexture",
+        JSON.parse(
+          '{"sapphire": {"textures": "textures/items/sapphire"}, "__proto__": {"polluted": true}}',
+        ),
+      ],
+    ]),
+    "Gems",
+    false,
+  );
+
+  assert.deepStrictEqual(files, [
+    {
+      path: "RP/textures/item_texture.json",
+      content: JSON.stringify(
+        {
+          resource_pack_name: "Gems",
+          texture_name: "atlas.items",
+          texture_data: {
+            ruby: { textures: "textures/items/ruby" },
+            sapphire: { textures: "textures/items/sapphire" },
+          },
+        },
+        undefined,
+        4,
+      ),
+    },
+  ]);
+  assert.equal({}.polluted, undefined);
+});
+
+test("registry files with an unexpected structure are an error", async () => {
+  const assetsPath = await createAssets({
+    "BP/functions/tick.json": '{ "values": "tick" }',
+  });
+
+  await assert.rejects(
+    createRegistryFiles(
+      assetsPath,
+      new Map([["tick", { "wiki:tick": true }]]),
+      "Gems",
+      true,
+    ),
+    {
+      message: `'${path.join(
+        assetsPath,
+        "BP/functions/tick.json",
+      )}' does not have the structure of 'BP/functions/tick.json'`,
+    },
+  );
+});
@@ -0,0 +1,119 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runTests } from "../dist/test_runner.js";
+
+const MANIFEST = {
+  format_version: 2,
+  header: {
+    name: "Test Runner",
+    description: "",
+    uuid: "5c3b7f5e-7b7a-4b6a-9d1e-3f1f0d7f8a10",
+    version: [1, 0, 0],
+    min_engine_version: [1, 20, 0],
+  },
+  modules: [
+    {
+      type: "script",
+      language: "javascript",
+      uuid: "0b6f3a8e-2f4d-4a4e-8d6b-6f1c2e9a7b21",
+      version: [1, 0, 0],
+      entry: "scripts/bundle.js",
+    },
+  ],
+  dependencies: [{ module_name: "@minecraft/server", version: "1.8.0" }],
+};
+
+// written to a temporary project so 'node --test' does not run it
+const GAME_TEST = `import { system, world } from "@minecraft/server";
+
+test("intervals run every few ticks", async () => {
+  let runs = 0;
+  system.runInterval(() => runs++, 2);
+
+  await mock.runTicks(5);
+  assert.equal(mock.currentTick, 5);
+  assert.equal(runs, 2);
+});
+
+test("jobs run a step each tick", async () => {
+  const steps: number[] = [];
+  system.runJob(
+    (function* () {
+      for (let i = 0; i < 3; i++) {
+        steps.push(system.currentTick);
+        yield;
+      }
+    })(),
+  );
+
+  await mock.runTicks(5);
+  assert.deepEqual(steps, [6, 7, 8]);
+});
+
+test("emitted events reach the subscribers", () => {
+  const messages: string[] = [];
+  world.afterEvents.chatSend.subscribe((event) => messages.push(event.message));
+
+  mock.emit(world.afterEvents.chatSend, { message: "hi" });
+  assert.deepEqual(messages, ["hi"]);
+});
+
+test("the mode is defined", () => {
+  assert.equal(__MODE__, "test");
+});
+
+test("waiting for ticks that are never run times out", async () => {
+  await new Promise((resolve) => system.runTimeout(resolve, 1));
+});
+`;
+
+test("tests run against the mocked game", async () => {
+  const projectPath = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "runner-"),
+  );
+  const testPath = path.join(projectPath, "src/game.test.ts");
+  const outDir = path.join(projectPath, "out");
+  await fs.promises.mkdir(path.join(projectPath, "assets/BP"), {
+    recursive: true,
+  });
+  await fs.promises.writeFile(
+    path.join(projectPath, "assets/BP/manifest.json"),
+    JSON.stringify(MANIFEST),
+  );
+  await fs.promises.mkdir(path.dirname(testPath));
+  await fs.promises.writeFile(testPath, GAME_TEST);
+
+  const results = await runTests(
+    {
+      name: "Test Runner",
+      copyAssets: false,
+      includeRp: false,
+      indexPath: testPath,
+      assetsPath: path.join(projectPath, "assets"),
+      optimize: false,
+      mode: "test",
+      out: { outPath: outDir },
+    },
+    [testPath],
+    outDir,
+    () => {},
+    200,
+  );
+
+  assert.deepStrictEqual(
+    results.map((result) => [result.name, result.error?.message]),
+    [
+      ["intervals run every few ticks", undefined],
+      ["jobs run a step each tick", undefined],
+      ["emitted events reach the subscribers", undefined],
+      ["the mode is defined", undefined],
+      [
+        "waiting for ticks that are never run times out",
+        "Test timed out after 200ms, eg. waiting for ticks without 'mock.runTicks'",
+      ],
+    ],
+  );
+});
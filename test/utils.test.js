@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  readJsonFile,
+  stringifyJsonFile,
+  writeFilesTogether,
+} from "../dist/utils.js";
+
+test("JSON files are written back in their original style", async () => {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "utils-"));
+
+  for (const [content, written] of [
+    ['{\n  "version": "1.0.0"\n}\n', '{\n  "version": "1.0.0"\n}\n'],
+    ['{\n    "version": "1.0.0"\n}', '{\n    "version": "1.0.0"\n}'],
+    [
+      '{\r\n\t"version": "1.0.0"\r\n}\r\n',
+      '{\r\n\t"version": "1.0.0"\r\n}\r\n',
+    ],
+  ]) {
+    const filePath = path.join(dir, "package.json");
+    await fs.promises.writeFile(filePath, content);
+
+    assert.equal(stringifyJsonFile(await readJsonFile(filePath)), written);
+  }
+});
+
+test("a failed rename names the files that were updated", async () => {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "utils-"));
+  const first = path.join(dir, "first.json");
+  // a directory that is not empty cannot be replaced by a file
+  const second = path.join(dir, "second.json");
+  await fs.promises.mkdir(path.join(second, "file"), { recursive: true });
+
+  await assert.rejects(
+    writeFilesTogether([
+      { path: first, content: "1" },
+      { path: second, content: "2" },
+    ]),
+    {
+      message: new RegExp(
+        `Updated files: '${first.replaceAll("\\", "\\\\")}'\\.`,
+      ),
+    },
+  );
+  assert.equal(await fs.promises.readFile(first, "utf8"), "1");
+  assert.equal(await fs.promises.readFile(`${second}.hopper-tmp`, "utf8"), "2");
+});
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { validateDefinition } from "../dist/validate.js";
+
+function createItem(formatVersion, description, components = {}) {
+  return {
+    format_version: formatVersion,
+    "minecraft:item": {
+      description: { identifier: "wiki:ruby", ...description },
+      components,
+    },
+  };
+}
+
+test("items from 1.20.0 use menu_category", () => {
+  assert.deepStrictEqual(
+    validateDefinition(
+      "item",
+      createItem("1.20.0", { menu_category: { category: "items" } }),
+    ),
+    [],
+  );
+  assert.deepStrictEqual(
+    validateDefinition("item", createItem("1.20.0", { category: "items" })),
+    [
+      {
+        jsonPath: '$["minecraft:item"].description',
+        message: "unknown property 'category'",
+      },
+    ],
+  );
+});
+
+test("items before 1.20.0 use category", () => {
+  assert.deepStrictEqual(
+    validateDefinition("item", createItem("1.16.100", { category: "Items" })),
+    [],
+  );
+  assert.deepStrictEqual(
+    validateDefinition(
+      "item",
+      createItem("1.16.100", { menu_category: { category: "items" } }),
+    ),
+    [
+      {
+        jsonPath: '$["minecraft:item"].description',
+        message: "unknown property 'menu_category'",
+      },
+    ],
+  );
+});
+
+test("item components of 1.20.0 are validated with the generated types", () => {
+  assert.deepStrictEqual(
+    validateDefinition(
+      "item",
+      createItem("1.20.0", {}, { "minecraft:display_name": { value: 1 } }),
+    ),
+    [
+      {
+        jsonPath:
+          '$["minecraft:item"].components["minecraft:display_name"].value',
+        message: "expected a string, got number 1",
+      },
+    ],
+  );
+});
@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import * as zlib from "zlib";
+import { createZip } from "../dist/zip.js";
+
+const ENTRIES = [
+  { path: "manifest.json", data: Buffer.from('{"format_version": 2}') },
+  { path: "texts/en_US.lang", data: Buffer.from("a=b\n".repeat(100)) },
+  { path: "pack_icon.png", data: Buffer.from([0x89, 0x50, 0x4e, 0x47]) },
+];
+
+/**
+ * Read the entries of an archive through its central directory, checking
+ * that the local headers match it.
+ */
+function readZip(zip) {
+  const end = zip.length - 22;
+  assert.equal(zip.readUInt32LE(end), 0x06054b50);
+  const entryCount = zip.readUInt16LE(end + 10);
+  assert.equal(zip.readUInt16LE(end + 8), entryCount);
+  const centralSize = zip.readUInt32LE(end + 12);
+  const centralOffset = zip.readUInt32LE(end + 16);
+  assert.equal(centralOffset + centralSize, end);
+
+  const entries = [];
+  let position = centralOffset;
+  for (let i = 0; i < entryCount; i++) {
+    assert.equal(zip.readUInt32LE(position), 0x02014b50);
+    const method = zip.readUInt16LE(position + 10);
+    const crc = zip.readUInt32LE(position + 16);
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const size = zip.readUInt32LE(position + 24);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const localOffset = zip.readUInt32LE(position + 42);
+    const name = zip.toString(
+      "utf8",
+      position + 46,
+      position + 46 + nameLength,
+    );
+
+    // the local header repeats the fields of the central header
+    assert.equal(zip.readUInt32LE(localOffset), 0x04034b50);
+    assert.equal(
+      zip.readUInt16LE(localOffset + 6),
+      zip.readUInt16LE(position + 8),
+    );
+    assert.equal(zip.readUInt16LE(localOffset + 8), method);
+    assert.equal(
+      zip.readUInt32LE(localOffset + 10),
+      zip.readUInt32LE(position + 12),
+    );
+    assert.equal(zip.readUInt32LE(localOffset + 14), crc);
+    assert.equal(zip.readUInt32LE(localOffset + 18), compressedSize);
+    assert.equal(zip.readUInt32LE(localOffset + 22), size);
+    assert.equal(zip.readUInt16LE(localOffset + 26), nameLength);
+    assert.equal(
+      zip.toString("utf8", localOffset + 30, localOffset + 30 + nameLength),
+      name,
+    );
+
+    const dataStart =
+      localOffset + 30 + nameLength + zip.readUInt16LE(localOffset + 28);
+    const compressed = zip.subarray(dataStart, dataStart + compressedSize);
+    assert.ok(method === 0 || method === 8);
+    const data = method === 8 ? zlib.inflateRawSync(compressed) : compressed;
+    assert.equal(data.length, size);
+    assert.equal(zlib.crc32(data), crc);
+
+    entries.push({ path: name, data: Buffer.from(data) });
+    position += 46 + nameLength;
+  }
+  assert.equal(position, end);
+
+  return entries;
+}
+
+test("zips of the same entries are identical in any order", () => {
+  assert.deepStrictEqual(
+    createZip([ENTRIES[2], ENTRIES[0], ENTRIES[1]]),
+    createZip(ENTRIES),
+  );
+});
+
+test("zip headers describe the entries", () => {
+  assert.deepStrictEqual(
+    readZip(createZip(ENTRIES)),
+    [...ENTRIES].sort((a, b) => (a.path < b.path ? -1 : 1)),
+  );
+});
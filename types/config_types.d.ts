@@ -0,0 +1,177 @@
+import type { Plugin as EsbuildPlugin } from "esbuild";
+import {
+  CompileTimeGlobalObject,
+  FileDefinition,
+} from "./script_globals_helper_types.js";
+
+/**
+ * Paths are relative to the directory of the project config.
+ */
+export interface HopperProfile {
+  /**
+   * Path to the entry file. Defaults to `src/index.ts`.
+   */
+  entry?: string;
+  /**
+   * Path to the source directory. Defaults to `src`.
+   */
+  src?: string;
+  /**
+   * Path to the assets directory. Defaults to `assets`.
+   */
+  assets?: string;
+  /**
+   * Glob patterns of assets that are not copied to the packs, relative to the assets directory, eg. `RP/textures/source/*.xcf`. Tooling files like `.psd`, `.blend` and `.bbmodel` are always ignored.
+   */
+  assetIgnore?: string[];
+  /**
+   * Should include a RP. Defaults to `true`.
+   */
+  rp?: boolean;
+  /**
+   * Should optimize the output script bundle.
+   */
+  optimize?: boolean;
+  /**
+   * The build mode, eg. `development`, `production` or a custom mode. Defaults to `production` when optimizing and `development` otherwise.
+   */
+  mode?: string;
+  /**
+   * Values added to `_.env` in compile-time code.
+   */
+  env?: { [name: string]: string | number | boolean };
+  /**
+   * Generate a source map for the output script bundle. `true` is the same as `"external"`.
+   */
+  sourcemap?: boolean | "external" | "inline";
+  /**
+   * Fail the build if a definition does not match its schema. By default mismatches are warnings.
+   */
+  strict?: boolean;
+  /**
+   * Output to the com.mojang directory. If `true` the default com.mojang path is used.
+   */
+  comMojang?: boolean | string;
+  /**
+   * Output to a specific directory.
+   */
+  out?: string;
+  /**
+   * Output to the directory of a Bedrock Dedicated Server and add the packs to a world of it.
+   */
+  bds?: string;
+  /**
+   * The world of the Bedrock Dedicated Server to add the packs to. Defaults to the `level-name` in its `server.properties`.
+   */
+  world?: string;
+  /**
+   * Run `/reload` in Minecraft after each script rebuild when watching. Minecraft connects with `/connect localhost:<port>`. `true` uses port 19144.
+   */
+  hotReload?: boolean | HopperHotReloadOptions;
+  /**
+   * Plugins that hook into the build. The plugins of a profile replace the plugins above.
+   */
+  plugins?: HopperPlugin[];
+}
+
+export interface HopperHotReloadOptions {
+  /**
+   * The port of the WebSocket server. Defaults to `19144`.
+   */
+  port?: number;
+  /**
+   * Commands to run after `reload`, without the '/'.
+   */
+  commands?: string[];
+}
+
+export interface HopperPluginContext {
+  projectName: string;
+  outDirBp: string;
+  /**
+   * `undefined` if the project does not include a RP.
+   */
+  outDirRp?: string;
+  optimize: boolean;
+  mode: string;
+}
+
+/**
+ * Hooks are run in the order the plugins are listed.
+ */
+export interface HopperPlugin {
+  /**
+   * Used in error messages.
+   */
+  name: string;
+  /**
+   * esbuild plugins used to bundle the scripts.
+   */
+  esbuildPlugins?: EsbuildPlugin[];
+  /**
+   * Add members to the compile-time global object `_`. Augment `CompileTimeGlobalObject` to type them.
+   *
+   * @param _ The compile-time global object, including the members added by the plugins before.
+   */
+  extendCompileTimeGlobal?(
+    _: CompileTimeGlobalObject,
+    context: HopperPluginContext,
+  ): { [name: string]: unknown } | Promise<{ [name: string]: unknown }>;
+  /**
+   * Transform the files defined at compile time before they are written. Paths start with the pack, eg. `BP/items/apple.json`.
+   */
+  transformFileDefinitions?(
+    fileDefinitions: FileDefinition[],
+    context: HopperPluginContext,
+  ): FileDefinition[] | Promise<FileDefinition[]>;
+  /**
+   * Transform the final script bundle. The source map is not updated.
+   */
+  transformBundle?(
+    bundle: string,
+    context: HopperPluginContext,
+  ): string | Promise<string>;
+  /**
+   * Called after the output files are written.
+   *
+   * @param outputPaths The paths of every output file of the build, including the ones that did not change.
+   */
+  afterWrite?(
+    outputPaths: string[],
+    context: HopperPluginContext,
+  ): void | Promise<void>;
+}
+
+export interface HopperConfig extends HopperProfile {
+  /**
+   * The name of the project.
+   */
+  name: string;
+  /**
+   * Named profiles that can be selected with `--profile <name>`. A profile overrides the options above.
+   */
+  profiles?: {
+    [name: string]: HopperProfile;
+  };
+  /**
+   * Names of the workspace members that the packs of this project depend on. Their UUIDs are added to the dependencies of the built manifests.
+   */
+  dependsOn?: string[];
+  /**
+   * The target Minecraft version in 'x.x.x' format. Definitions without a `format_version` are validated against the types of this version. Set the same version in the `HopperTarget` interface to type them in the editor.
+   */
+  targetVersion?: string;
+}
+
+export interface HopperWorkspaceConfig {
+  /**
+   * Paths to the directories of the member projects. Each member has its own project config.
+   */
+  members: string[];
+  /**
+   * Import aliases available to every member, eg. `{ "@shared": "./shared" }` to share compile-time helper code. Paths are relative to the workspace.
+   */
+  alias?: {
+    [name: string]: string;
+  };
+}
@@ -0,0 +1,46 @@
+import type * as mcDefs from "./minecraft_definition_types.js";
+
+// Types of format versions that the generated types do not have yet. They are
+// versioned namespaces like the ones generated by 'hopper gen-types' and are
+// used for validation too. Remove a namespace and its `FormatVersions` entry
+// when the generated types have its version.
+
+/**
+ * Items from 1.20.0, which set their place in the creative inventory with `menu_category`.
+ */
+export namespace b_items__1_20_0 {
+  export type MenuCategory = {
+    /**
+     * @description The creative inventory tab of the item. The item is not in the creative inventory if this is `none`.
+     */
+    category: "construction" | "equipment" | "items" | "nature" | "none";
+    /**
+     * @description The group in the tab the item is in, eg. `itemGroup.name.sword`.
+     */
+    group?: string;
+    /**
+     * @description Hides the item from commands like `/give`.
+     */
+    is_hidden_in_commands?: boolean;
+  };
+
+  export type Main = {
+    format_version: string;
+    "minecraft:item": {
+      description: {
+        /**
+         * @description The identifier for this item. The name must include a namespace and must not use the Minecraft namespace unless overriding a Vanilla item.
+         */
+        identifier: string;
+        menu_category?: MenuCategory;
+      };
+      components?: mcDefs.b_items.Main["minecraft:item"]["components"];
+    };
+  };
+}
+
+declare module "./minecraft_definition_types.js" {
+  interface FormatVersions {
+    b_items: [["1.20.0", b_items__1_20_0.Main]];
+  }
+}
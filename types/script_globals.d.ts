@@ -2,5 +2,13 @@ import { CompileTimeGlobalObject } from "./script_globals_helper_types.js";
 
 declare global {
   var _: CompileTimeGlobalObject;
+  /**
+   * `true` in the `development` mode. Branches that depend on it are removed from the builds of the other modes.
+   */
+  const __DEV__: boolean;
+  /**
+   * The build mode, eg. `development` or `production`.
+   */
+  const __MODE__: string;
 }
 export {};
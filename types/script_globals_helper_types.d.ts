@@ -1,8 +1,19 @@
 import * as mcDefs from "./minecraft_definition_types.js";
+import "./minecraft_definition_type_versions.js";
+
+declare module "./minecraft_definition_types.js" {
+  /**
+   * The `Main` type of each format version of the namespaces, from the newest version. `hopper gen-types` adds the versions of the schemas, this declaration keeps it defined for types generated without versions.
+   */
+  interface FormatVersions {}
+}
 
 export interface FileDefinition {
   path: string;
-  content: string;
+  /**
+   * The text of the file, or the bytes of a binary file.
+   */
+  content: string | Uint8Array;
 }
 
 export interface DefineFileOptions {
@@ -48,38 +59,682 @@ export type DefineFileFuncOptionsRequired<
   O extends DefineFileOptions = DefineFileOptions,
 > = (content: T, options: O) => string | false;
 
+export type TexturePath =
+  | string
+  | {
+      path: string;
+      overlay_color?: string;
+      tint_color?: string;
+    };
+
+export interface TextureDataEntry {
+  textures: TexturePath | TexturePath[] | { variations: TexturePath[] };
+}
+
+export interface FlipbookTexture {
+  flipbook_texture: string;
+  atlas_tile: string;
+  atlas_index?: number;
+  atlas_tile_variant?: number;
+  ticks_per_frame?: number;
+  frames?: number[];
+  replicate?: number;
+  blend_frames?: boolean;
+}
+
+export type BlockFaceTextures =
+  | string
+  | {
+      up?: string;
+      down?: string;
+      side?: string;
+      north?: string;
+      south?: string;
+      east?: string;
+      west?: string;
+    };
+
+export interface ClientBlock {
+  textures?: BlockFaceTextures;
+  carried_textures?: BlockFaceTextures;
+  sound?: string;
+  brightness_gamma?: number;
+  isotropic?: boolean | { [face: string]: boolean };
+}
+
+export interface SoundDefinitionSound {
+  name: string;
+  stream?: boolean;
+  volume?: number;
+  pitch?: number;
+  weight?: number;
+  is3D?: boolean;
+  load_on_low_memory?: boolean;
+}
+
+export interface SoundDefinition {
+  category?:
+    | "ambient"
+    | "block"
+    | "bottle"
+    | "bucket"
+    | "hostile"
+    | "music"
+    | "neutral"
+    | "player"
+    | "record"
+    | "ui"
+    | "weather";
+  min_distance?: number;
+  max_distance?: number;
+  sounds: (string | SoundDefinitionSound)[];
+}
+
+/**
+ * Adds entries to a file that is shared between definitions. The entries are deep merged with the file in the assets directory. Conflicting keys fail the build.
+ */
+export type DefineRegistryFunc<T> = (entries: { [key: string]: T }) => void;
+
+declare global {
+  /**
+   * Augment with the target Minecraft version of the project to type definitions without a `format_version` for that version, eg. `interface HopperTarget { version: "1.20.50" }`.
+   */
+  interface HopperTarget {}
+}
+
+type TargetVersion = HopperTarget extends { version: infer V extends string }
+  ? V
+  : string;
+
+type ParseVersion<V extends string> = V extends `${infer Major extends
+  number}.${infer Minor extends number}.${infer Patch extends number}`
+  ? [Major, Minor, Patch]
+  : never;
+
+type Tuple<N extends number, T extends unknown[] = []> = T["length"] extends N
+  ? T
+  : Tuple<N, [...T, unknown]>;
+
+type IsLessOrEqual<A extends number, B extends number> = Tuple<B> extends [
+  ...Tuple<A>,
+  ...unknown[],
+]
+  ? true
+  : false;
+
+type IsVersionLessOrEqual<A extends number[], B extends number[]> = A extends [
+  infer AHead extends number,
+  ...infer ATail extends number[],
+]
+  ? B extends [infer BHead extends number, ...infer BTail extends number[]]
+    ? AHead extends BHead
+      ? IsVersionLessOrEqual<ATail, BTail>
+      : IsLessOrEqual<AHead, BHead>
+    : false
+  : true;
+
+type SelectFormatVersion<
+  Versions,
+  V extends number[],
+  Fallback,
+> = Versions extends [[infer Version extends string, infer T], ...infer Rest]
+  ? IsVersionLessOrEqual<ParseVersion<Version>, V> extends true
+    ? T
+    : SelectFormatVersion<Rest, V, Fallback>
+  : Fallback;
+
+/**
+ * The type of a definition with a format version. The types of a version are used up to the next version that has its own types. Versions older than all of them and versions not in 'x.x.x' format use `Main`.
+ */
+export type VersionedDefinition<
+  Main,
+  Namespace extends string,
+  V extends string,
+> = Namespace extends keyof mcDefs.FormatVersions
+  ? [ParseVersion<V>] extends [never]
+    ? Main
+    : SelectFormatVersion<
+        mcDefs.FormatVersions[Namespace],
+        ParseVersion<V>,
+        Main
+      >
+  : Main;
+
+/**
+ * Defines a file typed by its `format_version`, or by the `HopperTarget` version if it does not have one.
+ */
+export type DefineVersionedFileFunc<Main, Namespace extends string> = <
+  V extends string = TargetVersion,
+>(
+  content: VersionedDefinition<Main, Namespace, V> & { format_version?: V },
+  options?: DefineFileOptions,
+) => string | false;
+
+export type DefineVersionedFileFuncOptionsRequired<
+  Main,
+  Namespace extends string,
+  O extends DefineFileOptions = DefineFileOptions,
+> = <V extends string = TargetVersion>(
+  content: VersionedDefinition<Main, Namespace, V> & { format_version?: V },
+  options: O,
+) => string | false;
+
 export interface Define {
-  serverAnimationController: DefineFileFunc<mcDefs.b_animation_controller.Main>;
-  serverAnimation: DefineFileFunc<mcDefs.b_animations.Main>;
-  biome: DefineFileFunc<mcDefs.b_biomes.Main>;
-  block: DefineFileFunc<mcDefs.b_blocks.Main>;
-  dialogue: DefineFileFuncOptionsRequired<
+  serverAnimationController: DefineVersionedFileFunc<
+    mcDefs.b_animation_controller.Main,
+    "b_animation_controller"
+  >;
+  serverAnimation: DefineVersionedFileFunc<
+    mcDefs.b_animations.Main,
+    "b_animations"
+  >;
+  biome: DefineVersionedFileFunc<mcDefs.b_biomes.Main, "b_biomes">;
+  block: DefineVersionedFileFunc<mcDefs.b_blocks.Main, "b_blocks">;
+  dialogue: DefineVersionedFileFuncOptionsRequired<
     mcDefs.b_dialogue.Main,
+    "b_dialogue",
     DefineFileOptionsNameRequired
   >;
-  entity: DefineFileFunc<mcDefs.b_entities.Main>;
-  featureRules: DefineFileFunc<mcDefs.b_feature_rules.Main>;
-  feature: DefineFileFunc<mcDefs.b_features.Main>;
-  item: DefineFileFunc<mcDefs.b_items.Main>;
-  lootTable: DefineFileFuncOptionsRequired<
+  entity: DefineVersionedFileFunc<mcDefs.b_entities.Main, "b_entities">;
+  featureRules: DefineVersionedFileFunc<
+    mcDefs.b_feature_rules.Main,
+    "b_feature_rules"
+  >;
+  feature: DefineVersionedFileFunc<mcDefs.b_features.Main, "b_features">;
+  item: DefineVersionedFileFunc<mcDefs.b_items.Main, "b_items">;
+  lootTable: DefineVersionedFileFuncOptionsRequired<
     mcDefs.b_loot_tables.Main,
+    "b_loot_tables",
     DefineFileOptionsNameRequired
   >;
-  recipe: DefineFileFunc<mcDefs.b_recipes.Main>;
-  spawnRules: DefineFileFunc<mcDefs.b_spawn_rules.Main>;
-  tradeTable: DefineFileFuncOptionsRequired<
+  recipe: DefineVersionedFileFunc<mcDefs.b_recipes.Main, "b_recipes">;
+  spawnRules: DefineVersionedFileFunc<
+    mcDefs.b_spawn_rules.Main,
+    "b_spawn_rules"
+  >;
+  tradeTable: DefineVersionedFileFuncOptionsRequired<
     mcDefs.b_trading.Main,
+    "b_trading",
     DefineFileOptionsNameRequired
   >;
-  clientAnimationController: DefineFileFunc<mcDefs.r_animation_controller.Main>;
-  clientAnimation: DefineFileFunc<mcDefs.r_actor_animation.Main>;
-  attachable: DefineFileFunc<mcDefs.r_attachables.Main>;
-  clientEntity: DefineFileFunc<mcDefs.r_entity.Main>;
-  particle: DefineFileFunc<mcDefs.r_particles.Main>;
-  renderController: DefineFileFunc<mcDefs.r_render_controllers.Main>;
+  clientAnimationController: DefineVersionedFileFunc<
+    mcDefs.r_animation_controller.Main,
+    "r_animation_controller"
+  >;
+  clientAnimation: DefineVersionedFileFunc<
+    mcDefs.r_actor_animation.Main,
+    "r_actor_animation"
+  >;
+  attachable: DefineVersionedFileFunc<
+    mcDefs.r_attachables.Main,
+    "r_attachables"
+  >;
+  clientEntity: DefineVersionedFileFunc<mcDefs.r_entity.Main, "r_entity">;
+  particle: DefineVersionedFileFunc<mcDefs.r_particles.Main, "r_particles">;
+  renderController: DefineVersionedFileFunc<
+    mcDefs.r_render_controllers.Main,
+    "r_render_controllers"
+  >;
   rawText: DefineFileFuncOptionsRequired<string, DefineFileRawOptions>;
+  /**
+   * Defines a binary file, eg. from a `Uint8Array` created at compile time.
+   */
+  rawBinary: DefineFileFuncOptionsRequired<Uint8Array, DefineFileRawOptions>;
+  /**
+   * Adds entries to `texture_data` in `RP/textures/item_texture.json`.
+   */
+  itemTexture: DefineRegistryFunc<TextureDataEntry>;
+  /**
+   * Adds entries to `texture_data` in `RP/textures/terrain_texture.json`.
+   */
+  terrainTexture: DefineRegistryFunc<TextureDataEntry>;
+  /**
+   * Adds flipbook textures to `RP/textures/flipbook_textures.json`. Flipbook textures are keyed by `atlas_tile`.
+   */
+  flipbookTexture: (flipbookTextures: FlipbookTexture[]) => void;
+  /**
+   * Adds blocks to `RP/blocks.json`.
+   */
+  clientBlock: DefineRegistryFunc<ClientBlock>;
+  /**
+   * Adds entries to `sound_definitions` in `RP/sounds/sound_definitions.json`.
+   */
+  soundDefinition: DefineRegistryFunc<SoundDefinition>;
+  /**
+   * Defines `BP/functions/<name>.mcfunction`. `name` can include directories, eg. `game/start`.
+   *
+   * @returns The name to run the function with, eg. `/function game/start`.
+   */
+  function(
+    name: string,
+    commands: string[] | ((builder: FunctionBuilder) => void),
+    options?: DefineFunctionOptions,
+  ): string;
+  /**
+   * Defines `BP/structures/<name>.mcstructure`. `name` can include a namespace directory, eg. `arena/small` is loaded with `/structure load arena:small`.
+   *
+   * @returns The name to load the structure with, eg. `arena:small`.
+   */
+  structure(name: string, structure: Structure): string;
+}
+
+export interface DefineFunctionOptions {
+  /**
+   * Run the function every tick by adding it to `BP/functions/tick.json`. The functions are merged with the file in the assets directory.
+   */
+  tick?: boolean;
+}
+
+export type SelectorVariable = "@a" | "@e" | "@p" | "@r" | "@s" | "@initiator";
+
+/**
+ * A range of values, eg. `1..5`, or a single value.
+ */
+export type SelectorRange =
+  | number
+  | `${number}..`
+  | `..${number}`
+  | `${number}..${number}`;
+
+export interface SelectorArguments {
+  type?: string;
+  name?: string;
+  family?: string | string[];
+  /**
+   * Prefix a tag with '!' to exclude entities with it.
+   */
+  tag?: string | string[];
+  /**
+   * Maximum distance.
+   */
+  r?: number;
+  /**
+   * Minimum distance.
+   */
+  rm?: number;
+  /**
+   * Maximum number of targets. Negative values select the furthest targets.
+   */
+  c?: number;
+  x?: number | string;
+  y?: number | string;
+  z?: number | string;
+  dx?: number;
+  dy?: number;
+  dz?: number;
+  rx?: number;
+  rxm?: number;
+  ry?: number;
+  rym?: number;
+  l?: number;
+  lm?: number;
+  m?:
+    | "survival"
+    | "creative"
+    | "adventure"
+    | "spectator"
+    | "default"
+    | 0
+    | 1
+    | 2;
+  scores?: { [objective: string]: SelectorRange | `!${SelectorRange}` };
+  hasitem?: {
+    item: string;
+    data?: number;
+    quantity?: SelectorRange;
+    location?: string;
+    slot?: SelectorRange;
+  };
+}
+
+/**
+ * A selector, eg. `@e[type=minecraft:cow]`, or a player name.
+ */
+export type Target = string;
+
+/**
+ * A coordinate, eg. `5`, `~2` or `^`.
+ */
+export type Coordinate = number | `~${number | ""}` | `^${number | ""}`;
+
+/**
+ * Coordinates, eg. `[0, 64, 0]`, or a string, eg. `~ ~1 ~`.
+ */
+export type Position = [Coordinate, Coordinate, Coordinate] | string;
+
+export interface ExecuteBuilder {
+  as(target: Target): this;
+  at(target: Target): this;
+  positioned(position: Position): this;
+  /**
+   * Add a condition, eg. `entity @s[tag=ready]` or `block ~ ~-1 ~ minecraft:stone`.
+   */
+  if(condition: string): this;
+  unless(condition: string): this;
+}
+
+/**
+ * Builds the commands of a function. Commands are written without the '/'.
+ */
+export interface FunctionBuilder {
+  /**
+   * Create a selector, eg. `selector("@e", { type: "minecraft:cow", r: 10 })` is `@e[type=minecraft:cow,r=10]`.
+   */
+  selector(variable: SelectorVariable, args?: SelectorArguments): Target;
+  /**
+   * Create relative coordinates, eg. `relative(0, 1, 0)` is `~ ~1 ~`.
+   */
+  relative(x?: number, y?: number, z?: number): string;
+  /**
+   * Create local coordinates, eg. `local(0, 0, 2)` is `^ ^ ^2`.
+   */
+  local(left?: number, up?: number, forward?: number): string;
+  /**
+   * Add any command.
+   */
+  command(command: string): this;
+  comment(text: string): this;
+  say(message: string): this;
+  tell(target: Target, message: string): this;
+  give(target: Target, item: string, amount?: number, data?: number): this;
+  clear(target?: Target, item?: string, data?: number, maxCount?: number): this;
+  teleport(target: Target, destination: Position | Target): this;
+  summon(entityType: string, position?: Position, nameTag?: string): this;
+  kill(target?: Target): this;
+  effect(
+    target: Target,
+    effect: string,
+    seconds?: number,
+    amplifier?: number,
+    hideParticles?: boolean,
+  ): this;
+  setblock(
+    position: Position,
+    block: string,
+    mode?: "destroy" | "keep" | "replace",
+  ): this;
+  fill(
+    from: Position,
+    to: Position,
+    block: string,
+    mode?: "destroy" | "hollow" | "keep" | "outline" | "replace",
+  ): this;
+  tag(target: Target, action: "add" | "remove", name: string): this;
+  /**
+   * Change the score of targets, eg. `score("@s", "points", "add", 1)`.
+   */
+  score(
+    target: Target,
+    objective: string,
+    action: "set" | "add" | "remove",
+    value: number,
+  ): this;
+  title(
+    target: Target,
+    type: "title" | "subtitle" | "actionbar",
+    text: string,
+  ): this;
+  playsound(
+    sound: string,
+    target?: Target,
+    position?: Position,
+    volume?: number,
+    pitch?: number,
+  ): this;
+  /**
+   * Run another function.
+   */
+  function(name: string): this;
+  /**
+   * Run the commands added in `run` with the `execute` subcommands, eg. `execute((e) => e.as("@a").at("@s"), (c) => c.say("hi"))`. At least one subcommand must be added.
+   */
+  execute(
+    subcommands: (execute: ExecuteBuilder) => ExecuteBuilder,
+    run: (builder: FunctionBuilder) => void,
+  ): this;
+}
+
+/**
+ * A block in the palette of a structure, eg. `"minecraft:stone"` or `{ name: "minecraft:wool", states: { color: "red" } }`.
+ */
+export type StructureBlock =
+  | string
+  | {
+      name: string;
+      /**
+       * Booleans are written as bytes and numbers as ints.
+       */
+      states?: { [state: string]: string | number | boolean };
+      /**
+       * The block version. Defaults to the version of 1.18.10.
+       */
+      version?: number;
+    };
+
+export interface StructureEntity {
+  identifier: string;
+  /**
+   * The position of the entity relative to the structure.
+   */
+  position: [number, number, number];
+  /**
+   * Rotation around the y and x axes in degrees.
+   */
+  rotation?: [number, number];
+}
+
+export interface Structure {
+  /**
+   * The size of the structure along the x, y and z axes.
+   */
+  size: [number, number, number];
+  palette: StructureBlock[];
+  /**
+   * The palette index of each block, `-1` for a structure void that keeps the existing block. Either an array ordered by x, then y, then z with z changing fastest, or a function that is called for each position.
+   */
+  blocks: number[] | ((x: number, y: number, z: number) => number);
+  entities?: StructureEntity[];
+}
+
+export interface LangTranslations {
+  /**
+   * The translation for a language, eg. `en_US`.
+   */
+  [language: string]: string;
+}
+
+export interface LangSetOptions {
+  /**
+   * The pack to add the entry to. Defaults to the RP, or the BP if the project does not include a RP.
+   */
+  pack?: "BP" | "RP";
+}
+
+export interface Lang {
+  /**
+   * Set the translations of a lang key. The entries are merged with the `.lang` files in the assets directory, which are otherwise kept as they are. Translations in languages the pack does not have in `languages.json` or a `.lang` file are skipped with a warning.
+   */
+  set(
+    key: string,
+    translations: LangTranslations,
+    options?: LangSetOptions,
+  ): void;
+}
+
+type TargetDefinition<Main, Namespace extends string> = VersionedDefinition<
+  Main,
+  Namespace,
+  TargetVersion
+>;
+
+/**
+ * The content of a definition without the identifier, which is set by the builder.
+ */
+type ContentBehavior<T> = T extends { description: infer D }
+  ? Omit<T, "description"> & { description?: Omit<D, "identifier"> }
+  : T;
+
+/**
+ * The name shown in game. A string is the `en_US` translation.
+ */
+export type ContentDisplayName = string | LangTranslations;
+
+export interface ContentEntityOptions {
+  /**
+   * The identifier, eg. `wiki:ghost`. The files are named after the part after the ':'.
+   */
+  id: string;
+  /**
+   * The `format_version` of the BP entity. Defaults to `1.20.0`.
+   */
+  formatVersion?: string;
+  /**
+   * `minecraft:entity` of the BP entity. The identifier is set from `id`.
+   */
+  behavior?: ContentBehavior<
+    TargetDefinition<mcDefs.b_entities.Main, "b_entities">["minecraft:entity"]
+  >;
+  /**
+   * The identifier of the geometry, eg. `geometry.ghost`. The RP client entity and its render controller are created if the geometry and texture are set.
+   */
+  geometry?: string;
+  /**
+   * Path to the texture without the extension, eg. `textures/entity/ghost`.
+   */
+  texture?: string;
+  /**
+   * The material of the client entity. Defaults to `entity_alphatest`.
+   */
+  material?: string;
+  /**
+   * The loot table dropped on death. It is written to `BP/loot_tables/entities` and set in the `minecraft:loot` component.
+   */
+  loot?: mcDefs.b_loot_tables.Main;
+  /**
+   * Create spawn rules for the entity.
+   */
+  spawn?: {
+    /**
+     * Defaults to `animal`.
+     */
+    populationControl?: string;
+    conditions: NonNullable<
+      TargetDefinition<
+        mcDefs.b_spawn_rules.Main,
+        "b_spawn_rules"
+      >["minecraft:spawn_rules"]["conditions"]
+    >;
+  };
+  /**
+   * Add a spawn egg with these colors, eg. `#ffffff`. The entity is made spawnable.
+   */
+  spawnEgg?: {
+    baseColor: string;
+    overlayColor: string;
+  };
+  displayName?: ContentDisplayName;
+}
+
+export interface ContentItemOptions {
+  /**
+   * The identifier, eg. `wiki:ruby`. The files are named after the part after the ':'.
+   */
+  id: string;
+  /**
+   * The `format_version` of the item. Defaults to `1.20.0`.
+   */
+  formatVersion?: string;
+  /**
+   * `minecraft:item` of the item. The identifier is set from `id`.
+   */
+  behavior?: ContentBehavior<
+    TargetDefinition<mcDefs.b_items.Main, "b_items">["minecraft:item"]
+  >;
+  /**
+   * Path to the texture without the extension, eg. `textures/items/ruby`. It is added to `item_texture.json` and set in the `minecraft:icon` component.
+   */
+  texture?: string;
+  /**
+   * The creative inventory category, set as `description.menu_category`. The item is not in the creative inventory if this is not set.
+   */
+  category?: "construction" | "equipment" | "items" | "nature" | "none";
+  displayName?: ContentDisplayName;
+}
+
+export interface ContentBlockOptions {
+  /**
+   * The identifier, eg. `wiki:ruby_block`. The files are named after the part after the ':'.
+   */
+  id: string;
+  /**
+   * The `format_version` of the block. Defaults to `1.20.0`.
+   */
+  formatVersion?: string;
+  /**
+   * `minecraft:block` of the block. The identifier is set from `id`.
+   */
+  behavior?: ContentBehavior<
+    TargetDefinition<mcDefs.b_blocks.Main, "b_blocks">["minecraft:block"]
+  >;
+  /**
+   * The identifier of the geometry, eg. `geometry.pillar`. Defaults to a full block.
+   */
+  geometry?: string;
+  /**
+   * Paths to the textures without the extension. They are added to `terrain_texture.json` and set in the `minecraft:material_instances` component. `side` is used for the faces that are not set.
+   */
+  texture?: BlockFaceTextures;
+  /**
+   * The sound of the block in `RP/blocks.json`, eg. `stone`.
+   */
+  sound?: string;
+  /**
+   * The creative inventory category. Defaults to `construction`.
+   */
+  category?: "construction" | "equipment" | "items" | "nature" | "none";
+  displayName?: ContentDisplayName;
+}
+
+/**
+ * Builders that create all the related BP and RP definitions of a piece of content with matching identifiers and paths. They return the identifier.
+ */
+export interface Content {
+  /**
+   * Creates the BP entity, the RP client entity and render controller, the loot table, the spawn rules and the lang entries.
+   */
+  entity(options: ContentEntityOptions): string;
+  /**
+   * Creates the item, its texture and the lang entry.
+   */
+  item(options: ContentItemOptions): string;
+  /**
+   * Creates the block, its textures, its sound and the lang entry.
+   */
+  block(options: ContentBlockOptions): string;
+}
+
+export interface CompileTimeEnv {
+  /**
+   * The build mode, eg. `development` or `production`. The same as `__MODE__` at runtime.
+   */
+  MODE: string;
+  /**
+   * `true` in the `development` mode. The same as `__DEV__` at runtime.
+   */
+  DEV: boolean;
+  /**
+   * The values of `env` in the project config.
+   */
+  [name: string]: string | number | boolean;
 }
 
 export interface CompileTimeGlobalObject {
   define: Define;
+  content: Content;
+  lang: Lang;
+  /**
+   * Inline a value computed at compile time into the runtime script bundle as a literal. The value must be JSON serializable and the call must be evaluated while the compile-time code runs, eg. not inside a callback that only runs in game.
+   */
+  inline<T>(value: T): T;
+  env: CompileTimeEnv;
 }
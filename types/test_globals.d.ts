@@ -0,0 +1,89 @@
+import type * as mc from "@minecraft/server";
+
+/**
+ * The globals of test files run by `hopper test`. Reference them in test files with `/// <reference types="@hopper-mcbe/hopper-mcbe/types/test_globals" />`.
+ */
+
+export interface TestAssert {
+  /**
+   * Fails if `value` is falsy.
+   */
+  (value: unknown, message?: string): asserts value;
+  /**
+   * Compares with `Object.is`.
+   */
+  equal<T>(actual: unknown, expected: T, message?: string): asserts actual is T;
+  notEqual(actual: unknown, expected: unknown, message?: string): void;
+  /**
+   * Compares the values of objects and arrays recursively.
+   */
+  deepEqual<T>(
+    actual: unknown,
+    expected: T,
+    message?: string,
+  ): asserts actual is T;
+  notDeepEqual(actual: unknown, expected: unknown, message?: string): void;
+  match(value: string, regExp: RegExp, message?: string): void;
+  throws(fn: () => unknown, message?: string): void;
+  rejects(
+    promiseOrFn: Promise<unknown> | (() => Promise<unknown>),
+    message?: string,
+  ): Promise<void>;
+  fail(message?: string): never;
+}
+
+export type MockPlayer = mc.Player & {
+  /**
+   * The messages the player received, including the messages sent to the world.
+   */
+  readonly messages: string[];
+};
+
+/**
+ * Controls the mocked game. The game is reset before each test file, so the tests of a file share it.
+ */
+export interface TestMock {
+  /**
+   * The same as `system.currentTick`.
+   */
+  readonly currentTick: number;
+  /**
+   * Messages sent with `world.sendMessage`.
+   */
+  readonly messages: string[];
+  /**
+   * Commands run by entities and dimensions, without the '/'.
+   */
+  readonly commands: string[];
+  /**
+   * Advance the game, running the `system.run`, `runTimeout`, `runInterval` and `runJob` callbacks that are due. Promises settle between ticks. Rejects with the first error thrown by a callback.
+   */
+  runTicks(count?: number): Promise<void>;
+  /**
+   * Add a player to the world. Defaults to 0, 0, 0 in the overworld.
+   */
+  spawnPlayer(
+    name: string,
+    location?: mc.Vector3,
+    dimensionId?: string,
+  ): MockPlayer;
+  /**
+   * Call the callbacks subscribed to an event, eg. `mock.emit(world.afterEvents.playerSpawn, { player, initialSpawn: true })`.
+   *
+   * @returns The event, eg. to check if a before event was canceled.
+   */
+  emit<T>(
+    signal: { subscribe(callback: (event: T) => void): unknown },
+    event: T,
+  ): T;
+  reset(): void;
+}
+
+declare global {
+  /**
+   * Define a test. Tests run in order after the test file is loaded.
+   */
+  function test(name: string, fn: () => void | Promise<void>): void;
+  var assert: TestAssert;
+  var mock: TestMock;
+}